@@ -1,9 +1,25 @@
 /**
  * HOW TO RUN:
  * 1. Ensure Node.js is installed.
- * 2. Save as 'generate.ts' and run: npx ts-node generate.ts
+ * 2. From this directory run: npx tsx dict-generator.ts [options]
+ *    (the sound classes and spelling rules are shared with the app in ../src/lib)
+ * 3. By default this writes the en_GB (non-rhotic and rhotic) and en_US dictionaries
+ *    to ../public, skipping any whose pronunciation source isn't present.
+ *    Run with --help for input paths, locale, output, word cap, scoring config, --dry-run
+ *    and --report (a CSV/JSON list of words the spelling heuristic disagrees on, can't highlight or the cap drops).
+ *    --metadata writes the rich format, keeping each word's part of speech, ratings, IPA,
+ *    syllables, score and family-safe flag (used by the app's result filters).
+ *    Family-safe flags come from src/lib/sensitiveWords.ts plus sensitive-words.txt
+ *    (or --sensitive-words), if present.
+ * 4. Curated boosts, bans, added words and pins are read from dictionary-overrides.json
+ *    (or --overrides) and applied after scoring; see src/lib/dictionaryOverrides.ts.
+ * 5. Each word's consonant letters are aligned to its sounds and capitalised; words
+ *    whose spelling can't be aligned are left out (and reported).
+ * * EXIT CODES: 0 success, 1 generation failed, 2 invalid arguments or config,
+ *   3 a required input file is missing, 4 highlighting failed validation.
  * * ATTRIBUTIONS & LICENSES:
  * - Britfone: Created by Jose Llarena (MIT License). 
+ * - CMUdict: Carnegie Mellon University (BSD-style license).
  * - Concreteness Norms: Brysbaert et al. (2014) (CC BY-NC 4.0).
  * - Sensorimotor Norms: Lynott et al. (2020), Lancaster University (CC BY 4.0).
  * - SCOWL: Kevin Atkinson (Copyright 2000-2019).
@@ -11,91 +27,222 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { parseArgs } from 'util';
+import { PHONEMES, mnemonicSystems, phonemeInfo } from '../src/lib/mnemonicSystems';
+import { SpellingOptions, estimateSyllables, spellingToPhonemeCode, toRhoticPhonemeCode } from '../src/lib/spellingRules';
+import { LetterSpan, alignPhonemes, countHighlightedSpans, renderHighlight } from '../src/lib/graphemeAlignment';
+import { PartOfSpeech, RICH_FORMAT, WordInfo } from '../src/lib/dictionaryWords';
+import { SensitiveCategory, getSensitiveCategory, sensitiveCategoryInfo } from '../src/lib/sensitiveWords';
+import { DictionaryOverride, describeOverride, getOverridesForLocale, parseOverrides } from '../src/lib/dictionaryOverrides';
+import { QualityIssue, REPORT_FORMATS, writeQualityReport } from './qualityReport';
 
 // --- CONFIGURATION ---
-const INPUT_FILES = {
-    "britfone": "britfone.main.3.0.1.csv",
-    "concreteness": "Concreteness_ratings_Brysbaert_et_al_BRM.txt",
-    "sensorimotor": "Lancaster_sensorimotor_norms_for_39707_words.csv",
-    "fallbackwords": "scowl-en_GB-ise.txt" 
+export const EXIT_CODES = {
+    OK: 0,
+    FAILED: 1,
+    USAGE: 2,
+    MISSING_INPUT: 3,
+    VALIDATION: 4,
+} as const;
+
+export class GeneratorError extends Error {
+    constructor(message: string, public readonly exitCode: number) {
+        super(message);
+        this.name = 'GeneratorError';
+    }
+}
+
+export interface InputFiles {
+    britfone: string;
+    cmudict: string;
+    concreteness: string;
+    sensorimotor: string;
+    // SCOWL word list per locale, for words without a known pronunciation
+    fallbackWords: Record<string, string>;
+    // Curated overrides, applied if the file exists
+    overrides: string;
+    // Extra words for family-safe mode, one "word" or "word,category" per line, added to
+    // the bundled list if the file exists
+    sensitiveWords: string;
+}
+
+export const DEFAULT_INPUT_FILES: InputFiles = {
+    britfone: "britfone.main.3.0.1.csv",
+    cmudict: "cmudict.dict",
+    concreteness: "Concreteness_ratings_Brysbaert_et_al_BRM.txt",
+    sensorimotor: "Lancaster_sensorimotor_norms_for_39707_words.csv",
+    fallbackWords: {
+        en_GB: "scowl-en_GB-ise.txt",
+        en_US: "scowl-en_US.txt",
+    },
+    overrides: "dictionary-overrides.json",
+    sensitiveWords: "sensitive-words.txt",
 };
 
-const OUTPUT_FILE = '../public/dictionary-en_GB.json';
-const COPYRIGHT_NOTICE = "Copyright (C) Ben Spiller 2026-present ; Commercial use of this dictionary is not permitted ; See https://github.com/ben-spiller/do-re-major-mnemonics for licensing information about this dictionary and the opensource data used to help created it";
+// Britfone (IPA) is non-rhotic, so its rhotic variant adds the "r" after vowels
+// (door, four); CMUdict (ARPAbet) is American and already rhotic.
+export interface DictionaryVariant {
+    locale: string;
+    accent: 'non-rhotic' | 'rhotic';
+    pronunciations: 'britfone' | 'cmudict';
+    fileName: string;
+}
+
+export const VARIANTS: DictionaryVariant[] = [
+    { locale: 'en_GB', accent: 'non-rhotic', pronunciations: 'britfone', fileName: 'dictionary-en_GB.json' },
+    { locale: 'en_GB', accent: 'rhotic', pronunciations: 'britfone', fileName: 'dictionary-en_GB-rhotic.json' },
+    { locale: 'en_US', accent: 'rhotic', pronunciations: 'cmudict', fileName: 'dictionary-en_US.json' },
+];
+
+const DEFAULT_OUTPUT_DIR = '../public';
+
+export interface ScoringWeights {
+    // Multipliers for the word's rating norms
+    concreteness: number;
+    visual: number;
+    haptic: number;
+    // Words with a known pronunciation rank above spelling-based guesses
+    pronunciationBonus: number;
+    // Pronunciation and spelling agree on the number of consonant sounds
+    spellingMatchBonus: number;
+    // Per consonant sound of disagreement between pronunciation and spelling
+    spellingMismatchPenalty: number;
+    // The word starts with a consonant sound, so it's easy to recall from its first letter
+    initialConsonantBonus: number;
+}
 
-const STATS_MAP: Record<string, string> = {
-    'D': '1', 'N': '2', 'M': '3', 'R': '4', 'L': '5', 
-    'J': '6', 'K': '7', 'F': '8', 'P': '9', 'S': '0'
+export const DEFAULT_WEIGHTS: ScoringWeights = {
+    concreteness: 5,
+    visual: 2,
+    haptic: 3,
+    pronunciationBonus: 100,
+    spellingMatchBonus: 30,
+    spellingMismatchPenalty: 25,
+    initialConsonantBonus: 100,
 };
 
-const PHONETIC_MAP: Record<string, string> = {
-    't': 'D', 'd': 'D', 'θ': 'D', 'ð': 'D', 
-    'n': 'N', 'ŋ': 'N', 'm': 'M',
-    'ɹ': 'R', 'r': 'R', 'l': 'L',
-    'dʒ': 'J', 'tʃ': 'J', 'ʃ': 'J', 'ʒ': 'J', 'j': 'J', 
-    'k': 'K', 'ɡ': 'K', 'g': 'K',
-    'f': 'F', 'v': 'F',
-    'p': 'P', 'b': 'P',
-    's': 'S', 'z': 'S'
+export interface GeneratorOptions {
+    inputs: InputFiles;
+    overrides: DictionaryOverride[];
+    // Words flagged for family-safe mode beyond the bundled list (src/lib/sensitiveWords.ts)
+    sensitiveWords: Map<string, SensitiveCategory>;
+    wordsPerCode: number;
+    weights: ScoringWeights;
+    // Write the rich format, with each word's part of speech, ratings, IPA and score
+    metadata: boolean;
+    dryRun: boolean;
+}
+
+const OUTPUT_FORMAT = "phonemes"; // keys are phoneme codes (see PHONEMES in mnemonicSystems.ts)
+const COPYRIGHT_NOTICE = "Copyright (C) Ben Spiller 2026-present ; Commercial use of this dictionary is not permitted ; See https://github.com/ben-spiller/do-re-major-mnemonics for licensing information about this dictionary and the opensource data used to help created it";
+
+// Coverage statistics are reported in Major System digits
+const STATS_MAP: Record<string, string> = mnemonicSystems['major'].phonemeToDigit;
+
+// IPA symbol -> phoneme code, from the app's phoneme inventory
+const PHONETIC_MAP: Record<string, string> = Object.fromEntries(
+    PHONEMES.flatMap(phoneme => phonemeInfo[phoneme].ipa.map(ipa => [ipa, phoneme]))
+);
+
+// ARPAbet symbol (stress digits removed) -> phoneme code
+const ARPABET_MAP: Record<string, string> = Object.fromEntries(
+    PHONEMES.flatMap(phoneme => phonemeInfo[phoneme].arpabet.map(symbol => [symbol, phoneme]))
+);
+
+// ARPAbet symbol -> IPA, for the pronunciations kept in the rich format
+const ARPABET_IPA: Record<string, string> = {
+    AA: 'ɑ', AE: 'æ', AH: 'ʌ', AO: 'ɔ', AW: 'aʊ', AY: 'aɪ', EH: 'ɛ', ER: 'ɝ', EY: 'eɪ',
+    IH: 'ɪ', IY: 'i', OW: 'oʊ', OY: 'ɔɪ', UH: 'ʊ', UW: 'u',
+    B: 'b', CH: 'tʃ', D: 'd', DH: 'ð', F: 'f', G: 'ɡ', HH: 'h', JH: 'dʒ', K: 'k', L: 'l',
+    M: 'm', N: 'n', NG: 'ŋ', P: 'p', R: 'ɹ', S: 's', SH: 'ʃ', T: 't', TH: 'θ', V: 'v',
+    W: 'w', Y: 'j', Z: 'z', ZH: 'ʒ',
 };
 
-const SOUND_TO_LETTERS: Record<string, string[]> = {
-    'D': ['th', 'tt', 'dd', 't', 'd'],
-    'N': ['nn', 'ng', 'kn', 'gn', 'n'],
-    'M': ['mm', 'm'],
-    'R': ['wr', 'rr', 'r'],
-    'L': ['ll', 'l'],
-    'J': ['tch', 'ch', 'sh', 'dg', 'jh', 'j', 'g', 's'],
-    'K': ['ck', 'kk', 'gg', 'qu', 'k', 'g', 'c', 'x'],
-    'F': ['ph', 'ff', 'vv', 'f', 'v'],
-    'P': ['pp', 'bb', 'p', 'b'],
-    'S': ['ss', 'zz', 's', 'z', 'c', 'x']
+function arpabetToIpa(symbols: string[]): string {
+    return symbols.map(symbol => {
+        const base = symbol.replace(/\d/g, '');
+        // Unstressed AH and ER are the reduced vowels
+        if (symbol === 'AH0') return 'ə';
+        if (symbol === 'ER0') return 'ɚ';
+        return (symbol.endsWith('1') ? 'ˈ' : '') + (ARPABET_IPA[base] ?? '');
+    }).join('');
+}
+
+// Britfone vowels and diphthongs, one per syllable
+const IPA_VOWEL = /[aeiouæɑɒɔəɜɛɪʊʌɐ]/;
+
+// Brysbaert "Dom_Pos" (SUBTLEX dominant part of speech) -> the app's parts of speech
+const PART_OF_SPEECH: Record<string, PartOfSpeech> = {
+    Noun: 'noun', Verb: 'verb', Adjective: 'adjective', Adverb: 'adverb', Name: 'name',
 };
 
 interface WordEntry {
     word: string;
     score: number;
+    spellingCode: string;
+    // Pronunciation from the source (none for fallback and added words)
+    ipa?: string;
+    syllables?: number;
+    // Which of the word's pronunciations this is, counted by distinct code (1 = first)
+    variant?: number;
 }
 
 /**
- * HEURISTIC: Estimates Bridge Code for words without phonetic data.
+ * HEURISTIC: Estimates the phoneme code for words without phonetic data.
+ * Uses the same spelling rules as the app's peg validator.
  */
-function estimateBridgeCode(word: string): string {
-    let w = word.toLowerCase().split("'")[0]; 
-    w = w.replace(/ck/g, 'k').replace(/ph/g, 'f').replace(/tch/g, 'j')
-         .replace(/kn/g, 'n').replace(/gn/g, 'n').replace(/wr/g, 'r');
-
-    const rules: Record<string, string> = {
-        't': 'D', 'd': 'D', 'n': 'N', 'm': 'M', 'r': 'R', 'l': 'L',
-        'j': 'J', 'g': 'K', 'k': 'K', 'c': 'K', 'f': 'F', 'v': 'F',
-        'p': 'P', 'b': 'P', 's': 'S', 'z': 'S'
-    };
+function estimatePhonemeCode(word: string, options: SpellingOptions = {}): string {
+    return spellingToPhonemeCode(word.split("'")[0], options);
+}
 
-    let code = "";
-    for (const char of w) { if (rules[char]) code += rules[char]; }
-    return code.replace(/(.)\1+/g, '$1'); 
+/**
+ * Capitalise the letters that spell each sound of the code (see
+ * src/lib/graphemeAlignment.ts), or null when the spelling can't be aligned.
+ */
+function highlightMnemonic(word: string, phonemeCode: string): { highlighted: string; spans: LetterSpan[] } | null {
+    const stem = word.split("'")[0];
+    const spans = alignPhonemes(stem, phonemeCode);
+    return spans ? { highlighted: renderHighlight(stem, spans), spans } : null;
 }
 
-function highlightMnemonic(word: string, bridgeCode: string): string {
-    let result = word.split("'")[0].toLowerCase();
-    let currentPos = 0;
-    for (const sound of bridgeCode) {
-        const patterns = SOUND_TO_LETTERS[sound] || [];
-        let bestMatch: { index: number; length: number } | null = null;
-        for (const pattern of patterns) {
-            const foundIndex = result.indexOf(pattern, currentPos);
-            if (foundIndex !== -1 && (bestMatch === null || foundIndex < bestMatch.index)) {
-                bestMatch = { index: foundIndex, length: pattern.length };
-            }
-        }
-        if (bestMatch) {
-            result = result.substring(0, bestMatch.index) + 
-                     result.substring(bestMatch.index, bestMatch.index + bestMatch.length).toUpperCase() + 
-                     result.substring(bestMatch.index + bestMatch.length);
-            currentPos = bestMatch.index + bestMatch.length;
-        }
+/**
+ * VALIDATION: every sound of the code must have its own highlighted span (an "x"
+ * spelling two sounds is one span), so the app highlights exactly the coded letters.
+ */
+function validateHighlight(highlighted: string, spans: LetterSpan[], phonemeCode: string): string | null {
+    const distinctSpans = new Set(spans.map(span => span.start)).size;
+    const highlightedSpans = countHighlightedSpans(highlighted);
+    if (spans.length !== phonemeCode.length || highlightedSpans !== distinctSpans) {
+        return `"${highlighted}" has ${highlightedSpans} highlighted spans for the ${phonemeCode.length} sounds of "${phonemeCode}"`;
     }
-    return result;
+    return null;
+}
+
+/**
+ * Metadata kept for a word in the rich format. Words the norms don't rate get
+ * no ratings; capitalised fallback words (SCOWL lists names that way) are names.
+ * Words on the family-safe lists are flagged with their category.
+ */
+function wordInfo(entry: WordEntry, rankingData: RankingData, sensitiveWords: Map<string, SensitiveCategory>): WordInfo {
+    const norms = rankingData[entry.word.toLowerCase()];
+    const isName = entry.word[0] !== entry.word[0].toLowerCase();
+    const round = (value: number) => Math.round(value * 100) / 100;
+    return {
+        pos: norms?.pos ?? (isName ? 'name' : undefined),
+        concreteness: norms ? round(norms.concreteness) : undefined,
+        imageability: norms?.visual ? round(norms.visual) : undefined,
+        ipa: entry.ipa,
+        syllables: entry.syllables ?? estimateSyllables(entry.word),
+        score: round(entry.score),
+        sensitive: getSensitiveCategory(entry.word.toLowerCase(), sensitiveWords),
+    };
+}
+
+// The app strips "(2)" style markers (see src/lib/dictionaryWords.ts); they keep a
+// word's extra pronunciations apart, each highlighted for its own code
+function variantMarker(entry: WordEntry): string {
+    return entry.variant && entry.variant > 1 ? `(${entry.variant})` : '';
 }
 
 function parseDataFile(filename: string) {
@@ -113,145 +260,559 @@ function parseDataFile(filename: string) {
     });
 }
 
-function runGenerator() {
+type RankingData = Record<string, { concreteness: number, visual: number, haptic: number, pos?: PartOfSpeech }>;
+
+function loadRankingData(inputs: InputFiles): RankingData {
+    const rankingData: RankingData = {};
+    const counts = { conc: 0, sensor: 0 };
+    parseDataFile(inputs.concreteness).forEach(row => {
+        const word = (row.Word || "").toLowerCase();
+        rankingData[word] = {
+            concreteness: parseFloat(row['Conc.M']) || 1.5, visual: 0, haptic: 0,
+            pos: PART_OF_SPEECH[row['Dom_Pos']] ?? (row['Dom_Pos'] ? 'other' : undefined),
+        };
+        counts.conc++;
+    });
+    parseDataFile(inputs.sensorimotor).forEach(row => {
+        const word = (row.Word || "").toLowerCase();
+        if (rankingData[word]) {
+            rankingData[word].visual = parseFloat(row['Visual.mean']) || 0;
+            rankingData[word].haptic = parseFloat(row['Hand_Arm.mean']) || 0;
+            counts.sensor++;
+        }
+    });
+    console.log(`    ✅ Loaded ${counts.conc} concrete and ${counts.sensor} sensorimotor ratings.`);
+    return rankingData;
+}
+
+/**
+ * Read a pronunciation source as words with one entry per sound: the sound's
+ * phoneme code, or '' for vowels and sounds that encode no digit. Words with
+ * several pronunciations (marked "read(2)" in the sources) appear once per
+ * pronunciation, without the marker.
+ */
+function loadPronunciations(source: DictionaryVariant['pronunciations'], inputs: InputFiles): { word: string; sounds: string[]; ipa: string; syllables: number }[] {
+    if (source === 'cmudict') {
+        // Lines look like "record(2) R EH1 K ER0 D"; ";;;" starts a comment
+        return fs.readFileSync(inputs.cmudict, 'utf-8').split(/\r?\n/)
+            .map(line => line.split('#')[0].trim())
+            .filter(line => line && !line.startsWith(';;;'))
+            .map(line => {
+                const [word, ...symbols] = line.split(/\s+/);
+                return {
+                    word: word.replace(/\(\d+\)/g, ''),
+                    sounds: symbols.map(symbol => ARPABET_MAP[symbol.replace(/\d/g, '')] || ''),
+                    ipa: arpabetToIpa(symbols),
+                    // Only vowels carry a stress digit
+                    syllables: symbols.filter(symbol => /\d/.test(symbol)).length,
+                };
+            });
+    }
+
+    return parseDataFile(inputs.britfone).flatMap(row => {
+        const word = (row['Word'] || row['word'] || row._rawValues[0] || "").replace(/\(\d+\)/g, '').trim();
+        const phoneticsRaw = (row['Phonemes'] || row['phonemes'] || row._rawValues[1] || "");
+        if (!word || !phoneticsRaw) return [];
+        const cleanPhonemes = phoneticsRaw.replace(/[ˈˌː]/g, '').trim().split(/\s+/);
+        const ipa = phoneticsRaw.trim().replace(/\s+/g, '');
+        const syllables = cleanPhonemes.filter((sound: string) => IPA_VOWEL.test(sound)).length;
+        return [{ word, sounds: cleanPhonemes.map((sound: string) => PHONETIC_MAP[sound] || ''), ipa, syllables }];
+    });
+}
+
+/**
+ * Build one dictionary variant and write it to outputFile (unless a dry run),
+ * printing its coverage statistics. Returns the variant's quality issues.
+ */
+export function runGenerator(variant: DictionaryVariant, outputFile: string, options: GeneratorOptions, rankingData: RankingData): QualityIssue[] {
     const startTime = Date.now();
-    console.log("🚀 Initializing Mnemonic Waterfall Generation...");
+    const { inputs, weights } = options;
+    const spelling: SpellingOptions = { rhotic: variant.accent === 'rhotic' };
+    console.log(`🚀 Initializing Mnemonic Waterfall Generation (${variant.locale}, ${variant.accent})...`);
+
+    const phonemeDict: Record<string, WordEntry[]> = {};
+    // Codes each word is listed under, in source order, to number its pronunciation variants
+    const wordCodes = new Map<string, string[]>();
+    const issues: QualityIssue[] = [];
+    let counts = { pronMapped: 0, fallbackMapped: 0, mismatched: 0, unaligned: 0, dropped: 0, sensitive: 0 };
+    const toDigits = (code: string) => code.split('').map(c => STATS_MAP[c] || "").join('');
+    const ratingScore = (norms: RankingData[string]) =>
+        (norms.concreteness * weights.concreteness) + (norms.visual * weights.visual) + (norms.haptic * weights.haptic);
+
+    // 1. Load pronunciations (Britfone IPA or CMUdict ARPAbet)
+    console.log(`--- Processing ${variant.pronunciations === 'cmudict' ? 'CMUdict (ARPAbet' : 'Britfone (IPA'}-Verified)...`);
+    loadPronunciations(variant.pronunciations, inputs).forEach(({ word: rawWord, sounds, ipa, syllables }) => {
+        const word = rawWord.toLowerCase();
+
+        let phonemeCode = sounds.join('');
+        const firstSoundIsConsonant = sounds[0] !== '';
+
+        if (spelling.rhotic && variant.pronunciations === 'britfone') phonemeCode = toRhoticPhonemeCode(word, phonemeCode);
+        if (!phonemeCode) return;
+        counts.pronMapped++;
+
+        const norms = rankingData[word] || { concreteness: 1.5, visual: 1.5, haptic: 1.5 };
+        let score = ratingScore(norms) + weights.pronunciationBonus;
+
+        const spellingCode = estimatePhonemeCode(word, spelling);
+        const mismatchPenalty = Math.abs(spellingCode.length - phonemeCode.length);
+        score += (mismatchPenalty === 0) ? weights.spellingMatchBonus : -(mismatchPenalty * weights.spellingMismatchPenalty);
+        if (firstSoundIsConsonant) score += weights.initialConsonantBonus;
+
+        if (!phonemeDict[phonemeCode]) phonemeDict[phonemeCode] = [];
+        if (!phonemeDict[phonemeCode].some(e => e.word === word)) {
+            const codes = wordCodes.get(word) ?? [];
+            codes.push(phonemeCode);
+            wordCodes.set(word, codes);
+            phonemeDict[phonemeCode].push({ word, score, spellingCode, ipa, syllables, variant: codes.length });
+            if (spellingCode !== phonemeCode) {
+                counts.mismatched++;
+                issues.push({ dictionary: variant.fileName, kind: 'spelling-mismatch', word, phonemeCode, spellingCode, digits: toDigits(phonemeCode), score });
+            }
+        }
+    });
 
-    try {
-        const rankingData: Record<string, { concreteness: number, visual: number, haptic: number }> = {};
-        const bridgeDict: Record<string, WordEntry[]> = {};
-        let counts = { conc: 0, sensor: 0, britMapped: 0, fallbackMapped: 0 };
-
-        // 1. Load Ranking Data
-        parseDataFile(INPUT_FILES.concreteness).forEach(row => {
-            const word = (row.Word || "").toLowerCase();
-            rankingData[word] = { concreteness: parseFloat(row['Conc.M']) || 1.5, visual: 0, haptic: 0 };
-            counts.conc++;
+    // 2. Load SCOWL Fallback
+    const fallbackWords = inputs.fallbackWords[variant.locale];
+    if (fallbackWords && fs.existsSync(fallbackWords)) {
+        console.log("--- Processing SCOWL (Heuristic Fallback)...");
+        const scowlWords = fs.readFileSync(fallbackWords, 'utf-8').split(/\r?\n/);
+        scowlWords.forEach(line => {
+            const rawWord = line.trim();
+            const word = rawWord.split("'")[0]; 
+            if (!word || word.length < 3) return;
+            
+            const phonemeCode = estimatePhonemeCode(word, spelling);
+            if (!phonemeCode) return;
+
+            // Priority Check: Don't let fallback override IPA word
+            const normWord = word.toLowerCase();
+            if (phonemeDict[phonemeCode]?.some(e => e.word.toLowerCase() === normWord)) return;
+
+            counts.fallbackMapped++;
+            const norms = rankingData[normWord] || { concreteness: 1.2, visual: 1.0, haptic: 1.0 };
+            const score = ratingScore(norms); // No pronunciation boost
+
+            if (!phonemeDict[phonemeCode]) phonemeDict[phonemeCode] = [];
+            phonemeDict[phonemeCode].push({ word: rawWord, score, spellingCode: phonemeCode });
         });
-        parseDataFile(INPUT_FILES.sensorimotor).forEach(row => {
-            const word = (row.Word || "").toLowerCase();
-            if (rankingData[word]) {
-                rankingData[word].visual = parseFloat(row['Visual.mean']) || 0;
-                rankingData[word].haptic = parseFloat(row['Hand_Arm.mean']) || 0;
-                counts.sensor++;
-            }
+    }
+
+    // 3. Apply Curated Overrides
+    const overrideLog = applyOverrides(phonemeDict, options.overrides, variant.locale, word => {
+        const norms = rankingData[word.toLowerCase()] || { concreteness: 1.5, visual: 1.5, haptic: 1.5 };
+        return ratingScore(norms) + weights.pronunciationBonus + weights.spellingMatchBonus;
+    }, spelling);
+
+    // 4. Finalize & Coverage Stats
+    const finalOutput: any = { "_metadata": COPYRIGHT_NOTICE, "_format": options.metadata ? RICH_FORMAT : OUTPUT_FORMAT };
+    const outputWords: Record<string, string[]> = {};
+    const coverageStats: Record<number, Set<string>> = {};
+    const validationErrors: string[] = [];
+    let maxLength = 0;
+
+    for (const code in phonemeDict) {
+        const len = code.length;
+        if (len > maxLength) maxLength = len;
+        if (!coverageStats[len]) coverageStats[len] = new Set();
+        const digits = toDigits(code);
+        coverageStats[len].add(digits);
+
+        // Already ranked, with pins in place; words that can't be highlighted don't use up the cap
+        const ranked = phonemeDict[code].flatMap(e => {
+            const highlight = highlightMnemonic(e.word, code);
+            if (highlight) return [{ ...e, ...highlight }];
+            counts.unaligned++;
+            issues.push({ dictionary: variant.fileName, kind: 'unaligned', word: e.word, phonemeCode: code, spellingCode: e.spellingCode, digits, score: e.score });
+            return [];
         });
-        console.log(`    ✅ Loaded ${counts.conc} concrete and ${counts.sensor} sensorimotor ratings.`);
+        const kept = ranked.slice(0, options.wordsPerCode);
+        outputWords[code] = kept.map(e => {
+            const error = validateHighlight(e.highlighted, e.spans, code);
+            if (error) validationErrors.push(`${code}: ${error}`);
+            if (getSensitiveCategory(e.word.toLowerCase(), options.sensitiveWords)) counts.sensitive++;
+            return e.highlighted + variantMarker(e);
+        });
+        finalOutput[code] = options.metadata
+            ? kept.map((e, i) => ({ word: outputWords[code][i], ...wordInfo(e, rankingData, options.sensitiveWords) }))
+            : outputWords[code];
+
+        ranked.slice(options.wordsPerCode).forEach((e, i) => {
+            counts.dropped++;
+            issues.push({
+                dictionary: variant.fileName, kind: 'dropped-by-cap', word: e.word, phonemeCode: code,
+                spellingCode: e.spellingCode, digits, score: e.score, rank: options.wordsPerCode + i + 1,
+            });
+        });
+    }
 
-        // 2. Load Britfone (IPA)
-        console.log("--- Processing Britfone (IPA-Verified)...");
-        parseDataFile(INPUT_FILES.britfone).forEach(row => {
-            const rawWord = (row['Word'] || row['word'] || row._rawValues[0] || "").replace(/\(\d+\)/g, '').trim();
-            const phoneticsRaw = (row['Phonemes'] || row['phonemes'] || row._rawValues[1] || "");
-            if (!rawWord || !phoneticsRaw) return;
+    if (validationErrors.length > 0) {
+        validationErrors.slice(0, 10).forEach(error => console.error(`❌ ${error}`));
+        throw new GeneratorError(
+            `${variant.fileName}: ${validationErrors.length} words failed highlight validation; nothing written`,
+            EXIT_CODES.VALIDATION,
+        );
+    }
 
-            const word = rawWord.toLowerCase();
-            const cleanPhonemes = phoneticsRaw.replace(/[ˈˌː]/g, '').trim().split(/\s+/);
-            
-            let bridgeCode = "";
-            let firstSoundIsConsonant = false;
-            let foundFirstConsonant = false;
-
-            for (let i = 0; i < cleanPhonemes.length; i++) {
-                const sound = cleanPhonemes[i];
-                const mapped = PHONETIC_MAP[sound];
-                if (mapped) {
-                    bridgeCode += mapped;
-                    if (!foundFirstConsonant) {
-                        if (i === 0) firstSoundIsConsonant = true;
-                        foundFirstConsonant = true;
-                    }
+    if (!options.dryRun) {
+        const dir = path.dirname(outputFile);
+        if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+        fs.writeFileSync(outputFile, JSON.stringify(finalOutput));
+    }
+
+    // 5. Statistics Dashboard
+    console.log("\n" + "=".repeat(40));
+    console.log("📊 GENERATION STATISTICS");
+    console.log("-".repeat(40));
+    console.log(`Pronounced Words:     ${counts.pronMapped}`);
+    console.log(`Fallback Words:       ${counts.fallbackMapped}`);
+    console.log(`Phoneme Codes:        ${Object.keys(phonemeDict).length}`);
+    console.log(`Spelling Mismatches:  ${counts.mismatched}`);
+    console.log(`Unaligned Spellings:  ${counts.unaligned}`);
+    console.log(`Dropped By Cap:       ${counts.dropped}`);
+    console.log(`Family-Safe Flagged:  ${counts.sensitive}`);
+    for (let i = 1; i <= Math.min(maxLength, 7); i++) {
+        const count = coverageStats[i]?.size || 0;
+        const possible = Math.pow(10, i);
+        console.log(`Length ${i} Coverage:   ${((count / possible) * 100).toFixed(1)}% (${count}/${possible})`);
+    }
+    
+    console.log("-".repeat(40));
+    console.log("🧪 KEY VERIFICATION (TOP 5 PER DIGIT)");
+    console.log("-".repeat(40));
+    for (let d = 0; d <= 9; d++) {
+        const digit = String(d);
+        // Every code that reads as the digit in this accent, single sounds first, so
+        // words whose code gains or loses sounds between accents are checked where they land
+        const codes = Object.keys(outputWords)
+            .filter(code => toDigits(code) === digit)
+            .sort((a, b) => a.length - b.length);
+        const words = codes.flatMap(code => outputWords[code].slice(0, 2)).slice(0, 5).join(', ');
+        console.log(`${digit} (${codes.join(' ')}): ${words || "EMPTY ❌"}`);
+    }
+
+    if (overrideLog.length > 0) {
+        console.log("-".repeat(40));
+        console.log("🛠️ OVERRIDES");
+        console.log("-".repeat(40));
+        overrideLog.forEach(line => console.log(line));
+    }
+
+    console.log("-".repeat(40));
+    console.log(`⏱️ Execution Time:     ${((Date.now() - startTime) / 1000).toFixed(2)}s`);
+    console.log(`📂 Output:              ${options.dryRun ? `${outputFile} (dry run, not written)` : outputFile}`);
+    console.log("=".repeat(40));
+    return issues;
+}
+
+/**
+ * Rank every code's words by score and apply the overrides for this locale:
+ * bans, then additions, then boosts, then pins (so pins get the final say).
+ * Returns one log line per override, saying whether it was applied.
+ */
+function applyOverrides(
+    phonemeDict: Record<string, WordEntry[]>,
+    overrides: DictionaryOverride[],
+    locale: string,
+    scoreForAdded: (word: string) => number,
+    spelling: SpellingOptions,
+): string[] {
+    const rank = (code: string) => phonemeDict[code].sort((a, b) => b.score - a.score);
+    Object.keys(phonemeDict).forEach(rank);
+
+    const log: string[] = [];
+    for (const override of getOverridesForLocale(overrides, locale)) {
+        const word = override.word.toLowerCase();
+        const codes = override.code ? [override.code] : Object.keys(phonemeDict);
+        const matches = (e: WordEntry) => e.word.toLowerCase() === word;
+        let applied = false;
+        let reason = 'word not listed';
+
+        switch (override.action) {
+            case 'ban':
+                for (const code of codes) {
+                    const entries = phonemeDict[code];
+                    if (!entries?.some(matches)) continue;
+                    phonemeDict[code] = entries.filter(e => !matches(e));
+                    if (phonemeDict[code].length === 0) delete phonemeDict[code];
+                    applied = true;
+                }
+                break;
+            case 'add':
+                if (phonemeDict[override.code]?.some(matches)) {
+                    reason = 'already listed';
+                    break;
                 }
+                if (!phonemeDict[override.code]) phonemeDict[override.code] = [];
+                phonemeDict[override.code].push({
+                    word: override.word,
+                    score: scoreForAdded(override.word),
+                    spellingCode: estimatePhonemeCode(override.word, spelling),
+                });
+                rank(override.code);
+                applied = true;
+                break;
+            case 'boost':
+                for (const code of codes) {
+                    const entry = phonemeDict[code]?.find(matches);
+                    if (!entry) continue;
+                    entry.score += override.amount;
+                    rank(code);
+                    applied = true;
+                }
+                break;
+            case 'pin': {
+                const entries = phonemeDict[override.code] ?? [];
+                const index = entries.findIndex(matches);
+                if (index === -1) break;
+                const [entry] = entries.splice(index, 1);
+                entries.splice(Math.min(override.position, entries.length + 1) - 1, 0, entry);
+                applied = true;
+                break;
             }
+        }
 
-            if (!bridgeCode) return;
-            counts.britMapped++;
+        log.push(applied ? `✅ ${describeOverride(override)}` : `⚠️ ${describeOverride(override)} (not applied: ${reason})`);
+    }
+    return log;
+}
+
+/**
+ * Read the extra sensitive words file: one "word" or "word,category" per line
+ * (category defaults to vulgar); "#" starts a comment.
+ */
+function loadSensitiveWords(file: string): Map<string, SensitiveCategory> {
+    const words = new Map<string, SensitiveCategory>();
+    fs.readFileSync(file, 'utf-8').split(/\r?\n/).forEach((line, index) => {
+        const [word, category = 'vulgar'] = line.split('#')[0].split(',').map(part => part.trim().toLowerCase());
+        if (!word) return;
+        if (!(category in sensitiveCategoryInfo)) {
+            throw new GeneratorError(
+                `Sensitive words file ${file}, line ${index + 1}: unknown category "${category}" (${Object.keys(sensitiveCategoryInfo).join(', ')})`,
+                EXIT_CODES.USAGE,
+            );
+        }
+        words.set(word, category as SensitiveCategory);
+    });
+    return words;
+}
 
-            const norms = rankingData[word] || { concreteness: 1.5, visual: 1.5, haptic: 1.5 };
-            let score = (norms.concreteness * 5) + (norms.visual * 2) + (norms.haptic * 3) + 100; // IPA Priority
+/**
+ * Read and validate an overrides file.
+ */
+function loadOverrides(file: string): DictionaryOverride[] {
+    let data: unknown;
+    try {
+        data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch (err) {
+        throw new GeneratorError(`Overrides file ${file} is not valid JSON: ${(err as Error).message}`, EXIT_CODES.USAGE);
+    }
+    try {
+        return parseOverrides(data);
+    } catch (err) {
+        throw new GeneratorError(`Overrides file ${file}: ${(err as Error).message}`, EXIT_CODES.USAGE);
+    }
+}
 
-            const spellingConsonants = word.replace(/[aeiouy]/g, '').length;
-            const mismatchPenalty = Math.abs(spellingConsonants - bridgeCode.length);
-            score += (mismatchPenalty === 0) ? 30 : -(mismatchPenalty * 25);
-            if (firstSoundIsConsonant) score += 100;
+// --- COMMAND LINE ---
+const USAGE = `Usage: npx tsx dict-generator.ts [options]
+
+Options:
+  --locale <locale>         Only generate this locale (${[...new Set(VARIANTS.map(v => v.locale))].join(', ')})
+  --accent <accent>         Only generate this accent (non-rhotic, rhotic)
+  --output <file>           Output file; requires --locale/--accent to select one dictionary
+  --output-dir <dir>        Directory for the dictionaries (default: ${DEFAULT_OUTPUT_DIR})
+  --britfone <file>         Britfone CSV (default: ${DEFAULT_INPUT_FILES.britfone})
+  --cmudict <file>          CMUdict file (default: ${DEFAULT_INPUT_FILES.cmudict})
+  --concreteness <file>     Concreteness ratings (default: ${DEFAULT_INPUT_FILES.concreteness})
+  --sensorimotor <file>     Sensorimotor norms (default: ${DEFAULT_INPUT_FILES.sensorimotor})
+  --fallback-words <file>   SCOWL word list for the selected locale
+  --overrides <file>        Curated overrides (default: ${DEFAULT_INPUT_FILES.overrides}, if present)
+  --sensitive-words <file>  Extra words to flag for family-safe mode, as "word" or
+                            "word,category" lines (default: ${DEFAULT_INPUT_FILES.sensitiveWords}, if present)
+  --words-per-code <n>      Words kept per phoneme code (default: 15)
+  --config <file>           JSON file with "wordsPerCode" and/or "weights" (scoring weights:
+                            ${Object.keys(DEFAULT_WEIGHTS).join(', ')})
+  --metadata                Write the rich format: each word with its part of speech,
+                            concreteness, imageability, IPA, syllables, score and
+                            family-safe flag
+  --dry-run                 Print statistics without writing any dictionary
+  --report <file>           Write a quality report (.csv or .json) of spelling mismatches,
+                            unaligned spellings and words dropped by the words-per-code cap
+  -h, --help                Show this help`;
+
+function parsePositiveInteger(value: string, name: string): number {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+        throw new GeneratorError(`${name} must be a positive whole number, got "${value}"`, EXIT_CODES.USAGE);
+    }
+    return parsed;
+}
 
-            if (!bridgeDict[bridgeCode]) bridgeDict[bridgeCode] = [];
-            if (!bridgeDict[bridgeCode].some(e => e.word === word)) {
-                bridgeDict[bridgeCode].push({ word, score });
-            }
+/**
+ * Read a scoring config file: { "wordsPerCode": 15, "weights": { "concreteness": 5, ... } }.
+ * Weights not given keep their defaults.
+ */
+function loadConfig(file: string): { wordsPerCode?: number; weights: ScoringWeights } {
+    if (!fs.existsSync(file)) {
+        throw new GeneratorError(`Config file not found: ${file}`, EXIT_CODES.MISSING_INPUT);
+    }
+
+    let config: { wordsPerCode?: unknown; weights?: Record<string, unknown> };
+    try {
+        config = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch (err) {
+        throw new GeneratorError(`Config file ${file} is not valid JSON: ${(err as Error).message}`, EXIT_CODES.USAGE);
+    }
+
+    const weights = { ...DEFAULT_WEIGHTS };
+    for (const [key, value] of Object.entries(config.weights ?? {})) {
+        if (!(key in DEFAULT_WEIGHTS)) {
+            throw new GeneratorError(`Unknown scoring weight "${key}" in ${file}`, EXIT_CODES.USAGE);
+        }
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+            throw new GeneratorError(`Scoring weight "${key}" in ${file} must be a number`, EXIT_CODES.USAGE);
+        }
+        weights[key as keyof ScoringWeights] = value;
+    }
+
+    const wordsPerCode = config.wordsPerCode === undefined
+        ? undefined
+        : parsePositiveInteger(String(config.wordsPerCode), `wordsPerCode in ${file}`);
+    return { wordsPerCode, weights };
+}
+
+/**
+ * Run the generator with command-line arguments and return the process exit code.
+ */
+export function main(argv: string[]): number {
+    try {
+        const { values } = parseArgs({
+            args: argv,
+            options: {
+                'locale': { type: 'string' },
+                'accent': { type: 'string' },
+                'output': { type: 'string' },
+                'output-dir': { type: 'string', default: DEFAULT_OUTPUT_DIR },
+                'britfone': { type: 'string', default: DEFAULT_INPUT_FILES.britfone },
+                'cmudict': { type: 'string', default: DEFAULT_INPUT_FILES.cmudict },
+                'concreteness': { type: 'string', default: DEFAULT_INPUT_FILES.concreteness },
+                'sensorimotor': { type: 'string', default: DEFAULT_INPUT_FILES.sensorimotor },
+                'fallback-words': { type: 'string' },
+                'overrides': { type: 'string' },
+                'sensitive-words': { type: 'string' },
+                'words-per-code': { type: 'string' },
+                'config': { type: 'string' },
+                'metadata': { type: 'boolean', default: false },
+                'dry-run': { type: 'boolean', default: false },
+                'report': { type: 'string' },
+                'help': { type: 'boolean', short: 'h', default: false },
+            },
         });
 
-        // 3. Load SCOWL Fallback
-        if (fs.existsSync(INPUT_FILES.fallbackwords)) {
-            console.log("--- Processing SCOWL (Heuristic Fallback)...");
-            const scowlWords = fs.readFileSync(INPUT_FILES.fallbackwords, 'utf-8').split(/\r?\n/);
-            scowlWords.forEach(line => {
-                const rawWord = line.trim();
-                const word = rawWord.split("'")[0]; 
-                if (!word || word.length < 3) return;
-                
-                const bridgeCode = estimateBridgeCode(word);
-                if (!bridgeCode) return;
-
-                // Priority Check: Don't let fallback override IPA word
-                const normWord = word.toLowerCase();
-                if (bridgeDict[bridgeCode]?.some(e => e.word.toLowerCase() === normWord)) return;
-
-                counts.fallbackMapped++;
-                const norms = rankingData[normWord] || { concreteness: 1.2, visual: 1.0, haptic: 1.0 };
-                let score = (norms.concreteness * 5) + (norms.visual * 2) + (norms.haptic * 3); // No IPA boost
-
-                if (!bridgeDict[bridgeCode]) bridgeDict[bridgeCode] = [];
-                bridgeDict[bridgeCode].push({ word: rawWord, score });
-            });
+        if (values.help) {
+            console.log(USAGE);
+            return EXIT_CODES.OK;
         }
 
-        // 4. Finalize & Coverage Stats
-        const finalOutput: any = { "_metadata": COPYRIGHT_NOTICE };
-        const coverageStats: Record<number, Set<string>> = {};
-        let maxLength = 0;
-
-        for (const code in bridgeDict) {
-            const len = code.length;
-            if (len > maxLength) maxLength = len;
-            if (!coverageStats[len]) coverageStats[len] = new Set();
-            const digits = code.split('').map(c => STATS_MAP[c] || "").join('');
-            coverageStats[len].add(digits);
-
-            finalOutput[code] = bridgeDict[code]
-                .sort((a, b) => b.score - a.score)
-                .slice(0, 15)
-                .map(e => highlightMnemonic(e.word, code));
+        const variants = VARIANTS.filter(v =>
+            (!values.locale || v.locale === values.locale) && (!values.accent || v.accent === values.accent));
+        if (variants.length === 0) {
+            throw new GeneratorError(`No dictionary for locale "${values.locale ?? 'any'}" and accent "${values.accent ?? 'any'}"`, EXIT_CODES.USAGE);
+        }
+        if (values.output && variants.length > 1) {
+            throw new GeneratorError(`--output needs a single dictionary, but ${variants.length} match; add --locale or --accent`, EXIT_CODES.USAGE);
         }
 
-        const dir = path.dirname(OUTPUT_FILE);
-        if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
-        fs.writeFileSync(OUTPUT_FILE, JSON.stringify(finalOutput));
+        const locales = new Set(variants.map(v => v.locale));
+        if (values['fallback-words'] && locales.size > 1) {
+            throw new GeneratorError('--fallback-words needs a single locale; add --locale', EXIT_CODES.USAGE);
+        }
 
-        // 5. Statistics Dashboard
-        console.log("\n" + "=".repeat(40));
-        console.log("📊 GENERATION STATISTICS");
-        console.log("-".repeat(40));
-        for (let i = 1; i <= Math.min(maxLength, 7); i++) {
-            const count = coverageStats[i]?.size || 0;
-            const possible = Math.pow(10, i);
-            console.log(`Length ${i} Coverage:   ${((count / possible) * 100).toFixed(1)}% (${count}/${possible})`);
+        if (values.report && !REPORT_FORMATS.includes(path.extname(values.report).toLowerCase())) {
+            throw new GeneratorError(`--report must be a ${REPORT_FORMATS.join(' or ')} file, got "${values.report}"`, EXIT_CODES.USAGE);
         }
-        
-        console.log("-".repeat(40));
-        console.log("🧪 KEY VERIFICATION (TOP 5 PER DIGIT)");
-        console.log("-".repeat(40));
-        Object.entries(STATS_MAP).sort((a,b) => a[1].localeCompare(b[1])).forEach(([bridgeChar, digit]) => {
-            const words = (finalOutput[bridgeChar] || []).slice(0, 5).join(', ');
-            console.log(`${digit} (${bridgeChar}): ${words || "EMPTY ❌"}`);
+
+        const config = values.config ? loadConfig(values.config) : { weights: DEFAULT_WEIGHTS };
+
+        // An explicitly named overrides file must exist; the default one is optional
+        const overridesFile = values.overrides ?? DEFAULT_INPUT_FILES.overrides;
+        if (values.overrides && !fs.existsSync(values.overrides)) {
+            throw new GeneratorError(`Overrides file not found: ${values.overrides}`, EXIT_CODES.MISSING_INPUT);
+        }
+        const overrides = fs.existsSync(overridesFile) ? loadOverrides(overridesFile) : [];
+
+        const sensitiveWordsFile = values['sensitive-words'] ?? DEFAULT_INPUT_FILES.sensitiveWords;
+        if (values['sensitive-words'] && !fs.existsSync(values['sensitive-words'])) {
+            throw new GeneratorError(`Sensitive words file not found: ${values['sensitive-words']}`, EXIT_CODES.MISSING_INPUT);
+        }
+        const sensitiveWords = fs.existsSync(sensitiveWordsFile) ? loadSensitiveWords(sensitiveWordsFile) : new Map();
+
+        const options: GeneratorOptions = {
+            inputs: {
+                britfone: values.britfone,
+                cmudict: values.cmudict,
+                concreteness: values.concreteness,
+                sensorimotor: values.sensorimotor,
+                fallbackWords: values['fallback-words']
+                    ? { [[...locales][0]]: values['fallback-words'] }
+                    : DEFAULT_INPUT_FILES.fallbackWords,
+                overrides: overridesFile,
+                sensitiveWords: sensitiveWordsFile,
+            },
+            overrides,
+            sensitiveWords,
+            wordsPerCode: values['words-per-code']
+                ? parsePositiveInteger(values['words-per-code'], '--words-per-code')
+                : config.wordsPerCode ?? 15,
+            weights: config.weights,
+            metadata: values.metadata,
+            dryRun: values['dry-run'],
+        };
+
+        // Without an explicit selection, dictionaries whose pronunciations aren't present are skipped
+        const explicit = Boolean(values.locale || values.accent);
+        const runnable = variants.filter(variant => {
+            const source = options.inputs[variant.pronunciations];
+            if (fs.existsSync(source)) return true;
+            if (explicit) {
+                throw new GeneratorError(`Pronunciation source not found: ${source}`, EXIT_CODES.MISSING_INPUT);
+            }
+            console.warn(`⚠️ Skipping ${variant.fileName}: ${source} not found`);
+            return false;
         });
+        if (runnable.length === 0) {
+            throw new GeneratorError('No pronunciation sources found; nothing to generate', EXIT_CODES.MISSING_INPUT);
+        }
 
-        console.log("-".repeat(40));
-        console.log(`⏱️ Execution Time:     ${((Date.now() - startTime) / 1000).toFixed(2)}s`);
-        console.log(`📂 Output:              ${OUTPUT_FILE}`);
-        console.log("=".repeat(40));
+        const rankingData = loadRankingData(options.inputs);
+        const issues: QualityIssue[] = [];
+        for (const variant of runnable) {
+            const outputFile = values.output ?? path.join(values['output-dir'], variant.fileName);
+            issues.push(...runGenerator(variant, outputFile, options, rankingData));
+        }
 
-    } catch (err) { console.error(err); }
+        if (values.report) {
+            writeQualityReport(values.report, issues);
+            console.log(`📝 Quality report:      ${values.report} (${issues.length} issues)`);
+        }
+        return EXIT_CODES.OK;
+    } catch (err) {
+        if (err instanceof GeneratorError) {
+            console.error(`❌ ${err.message}`);
+            return err.exitCode;
+        }
+        // parseArgs rejects unknown options and missing values
+        if ((err as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) {
+            console.error(`❌ ${(err as Error).message}\n\n${USAGE}`);
+            return EXIT_CODES.USAGE;
+        }
+        console.error(err);
+        return EXIT_CODES.FAILED;
+    }
 }
 
-runGenerator();
\ No newline at end of file
+// Only run when executed directly, so the generator can be imported (e.g. by tests or other scripts)
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+    process.exitCode = main(process.argv.slice(2));
+}
@@ -0,0 +1,56 @@
+/**
+ * Quality report for the dictionary generator: words whose spelling-based
+ * estimate disagrees with their pronunciation, words whose letters can't be
+ * aligned to their sounds for highlighting, and words dropped by the
+ * words-per-code cap. Written as CSV or JSON so curators can review where
+ * the dictionary is unreliable.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type QualityIssueKind = 'spelling-mismatch' | 'unaligned' | 'dropped-by-cap';
+
+export interface QualityIssue {
+    dictionary: string;
+    kind: QualityIssueKind;
+    word: string;
+    // Code the word is listed under (from its pronunciation, or estimated for fallback words)
+    phonemeCode: string;
+    // Code the spelling rules estimate for the word
+    spellingCode: string;
+    // Major System digits of phonemeCode, for readability
+    digits: string;
+    score: number;
+    // 1-based position among the code's words (dropped words only)
+    rank?: number;
+}
+
+export const REPORT_FORMATS = ['.csv', '.json'];
+
+const CSV_COLUMNS: (keyof QualityIssue)[] = ['dictionary', 'kind', 'word', 'phonemeCode', 'spellingCode', 'digits', 'score', 'rank'];
+
+function csvField(value: unknown): string {
+    const text = value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Write the issues to a .csv or .json file, chosen by the file's extension.
+ */
+export function writeQualityReport(file: string, issues: QualityIssue[]): void {
+    const dir = path.dirname(file);
+    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+
+    const rounded = issues.map(issue => ({ ...issue, score: Math.round(issue.score * 100) / 100 }));
+    if (path.extname(file).toLowerCase() === '.json') {
+        fs.writeFileSync(file, JSON.stringify({ issues: rounded }, null, 2));
+        return;
+    }
+
+    const lines = [
+        CSV_COLUMNS.join(','),
+        ...rounded.map(issue => CSV_COLUMNS.map(column => csvField(issue[column])).join(',')),
+    ];
+    fs.writeFileSync(file, lines.join('\n') + '\n');
+}
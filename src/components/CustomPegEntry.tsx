@@ -3,15 +3,17 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Plus, AlertTriangle } from 'lucide-react';
-import { MnemonicSystem } from '@/lib/mnemonicSystems';
-import { wordToDigits } from '@/hooks/useMnemonicMatcher';
+import { MnemonicSystem, getSystemConfig } from '@/lib/mnemonicSystems';
+import { getWordDigitOptions } from '@/hooks/useMnemonicMatcher';
+import { Dictionary } from '@/lib/dictionaryService';
 
 interface CustomPegEntryProps {
   system: MnemonicSystem;
+  dictionary: Dictionary | null;
   onAddPeg: (digits: string, word: string) => void;
 }
 
-export function CustomPegEntry({ system, onAddPeg }: CustomPegEntryProps) {
+export function CustomPegEntry({ system, dictionary, onAddPeg }: CustomPegEntryProps) {
   const [digits, setDigits] = useState('');
   const [word, setWord] = useState('');
   const [warning, setWarning] = useState<string | null>(null);
@@ -34,11 +36,12 @@ export function CustomPegEntry({ system, onAddPeg }: CustomPegEntryProps) {
       return;
     }
 
-    const expectedDigits = wordToDigits(w, system);
+    const expectedDigits = getWordDigitOptions(w, system, dictionary).filter(Boolean);
     
-    if (expectedDigits !== d) {
-      if (expectedDigits) {
-        setWarning(`"${w}" normally maps to "${expectedDigits}" in ${system === 'do-re-major' ? 'Do-Re-Major' : 'Major'} system, not "${d}"`);
+    if (!expectedDigits.includes(d)) {
+      if (expectedDigits.length > 0) {
+        const options = expectedDigits.map(digits => `"${digits}"`).join(' or ');
+        setWarning(`"${w}" normally maps to ${options} in ${getSystemConfig(system).name}, not "${d}"`);
       } else {
         setWarning(`"${w}" has no consonants that map to digits`);
       }
@@ -0,0 +1,20 @@
+import { cn } from '@/lib/utils';
+import { digitColors } from '@/lib/mnemonicSystems';
+
+interface DigitSequenceProps {
+  digits: string;
+  className?: string;
+}
+
+/**
+ * Renders digits in monospace, each in its colour from the mapping chart.
+ */
+export function DigitSequence({ digits, className }: DigitSequenceProps) {
+  return (
+    <span className={cn('font-mono font-semibold', className)}>
+      {digits.split('').map((digit, i) => (
+        <span key={i} style={{ color: digitColors[digit] }}>{digit}</span>
+      ))}
+    </span>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Lock, LockOpen } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface FamilySafeSettingsProps {
+  familySafe: boolean;
+  isLocked: boolean;
+  onFamilySafeChange: (enabled: boolean) => void;
+  onLock: (pin: string) => Promise<void>;
+  onUnlock: (pin: string) => Promise<boolean>;
+}
+
+const PIN_PATTERN = /^\d{4,8}$/;
+
+/**
+ * Switch for family-safe mode, with a PIN lock so it can't be turned off
+ * without the PIN (e.g. on a classroom device).
+ */
+export function FamilySafeSettings({ familySafe, isLocked, onFamilySafeChange, onLock, onUnlock }: FamilySafeSettingsProps) {
+  const [dialog, setDialog] = useState<'lock' | 'unlock' | null>(null);
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const openDialog = (mode: 'lock' | 'unlock') => {
+    setPin('');
+    setConfirmPin('');
+    setError(null);
+    setDialog(mode);
+  };
+
+  const handleSubmit = async () => {
+    try {
+      if (dialog === 'lock') {
+        if (!PIN_PATTERN.test(pin)) {
+          setError('Use 4 to 8 digits');
+          return;
+        }
+        if (pin !== confirmPin) {
+          setError('The PINs do not match');
+          return;
+        }
+        await onLock(pin);
+        toast.success('Family-safe mode locked');
+      } else {
+        if (!(await onUnlock(pin))) {
+          setError('Wrong PIN');
+          return;
+        }
+        toast.success('Family-safe mode unlocked');
+      }
+    } catch (error) {
+      // e.g. no PIN hashing on pages not served over https
+      setError((error as Error).message);
+      return;
+    }
+    setDialog(null);
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-3 px-3">
+      <div className="min-w-0">
+        <Label htmlFor="family-safe" className="text-sm font-medium">
+          Family-safe
+        </Label>
+        <p className="text-xs text-muted-foreground">
+          {isLocked ? 'Locked on with a PIN' : 'Hide vulgar, sexual and slur words'}
+        </p>
+      </div>
+      <div className="flex items-center gap-1">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          title={isLocked ? 'Unlock with PIN' : 'Lock on with a PIN'}
+          onClick={() => openDialog(isLocked ? 'unlock' : 'lock')}
+        >
+          {isLocked ? <Lock className="h-4 w-4 text-primary" /> : <LockOpen className="h-4 w-4" />}
+        </Button>
+        <Switch
+          id="family-safe"
+          checked={familySafe}
+          disabled={isLocked}
+          onCheckedChange={onFamilySafeChange}
+        />
+      </div>
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{dialog === 'lock' ? 'Lock family-safe mode' : 'Unlock family-safe mode'}</DialogTitle>
+            <DialogDescription>
+              {dialog === 'lock'
+                ? 'Family-safe mode stays on until someone enters this PIN. It is saved on this device only.'
+                : 'Enter the PIN to allow turning family-safe mode off.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="family-safe-pin">PIN</Label>
+              <Input
+                id="family-safe-pin"
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                value={pin}
+                onChange={(e) => setPin(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+              />
+            </div>
+            {dialog === 'lock' && (
+              <div className="space-y-1">
+                <Label htmlFor="family-safe-confirm-pin">Confirm PIN</Label>
+                <Input
+                  id="family-safe-confirm-pin"
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  value={confirmPin}
+                  onChange={(e) => setConfirmPin(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+                />
+              </div>
+            )}
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setDialog(null)}>Cancel</Button>
+            <Button onClick={handleSubmit} disabled={!pin}>
+              {dialog === 'lock' ? 'Lock' : 'Unlock'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -2,7 +2,9 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Favorite } from '@/hooks/useFavorites';
-import { MnemonicSystem } from '@/lib/mnemonicSystems';
+import { MnemonicSystem, mnemonicSystems } from '@/lib/mnemonicSystems';
+import { Dictionary } from '@/lib/dictionaryService';
+import { stripWordMarkers } from '@/lib/dictionaryWords';
 import { Trash2, Copy, Heart, Star } from 'lucide-react';
 import { toast } from 'sonner';
 import { CustomPegEntry } from './CustomPegEntry';
@@ -12,11 +14,12 @@ interface FavoritesListProps {
   onRemove: (id: string) => void;
   onAddCustomPeg: (digits: string, word: string, system: MnemonicSystem) => void;
   currentSystem: MnemonicSystem;
+  dictionary: Dictionary | null;
 }
 
-export function FavoritesList({ favorites, onRemove, onAddCustomPeg, currentSystem }: FavoritesListProps) {
+export function FavoritesList({ favorites, onRemove, onAddCustomPeg, currentSystem, dictionary }: FavoritesListProps) {
   const handleCopy = async (words: string[]) => {
-    await navigator.clipboard.writeText(words.join(' + '));
+    await navigator.clipboard.writeText(words.map(stripWordMarkers).join(' + '));
     toast.success('Copied to clipboard!');
   };
 
@@ -31,7 +34,7 @@ export function FavoritesList({ favorites, onRemove, onAddCustomPeg, currentSyst
 
   return (
     <div className="space-y-6">
-      <CustomPegEntry system={currentSystem} onAddPeg={handleAddPeg} />
+      <CustomPegEntry system={currentSystem} dictionary={dictionary} onAddPeg={handleAddPeg} />
 
       {customPegs.length > 0 && (
         <div className="space-y-2">
@@ -98,7 +101,7 @@ function FavoriteCard({ favorite, onCopy, onRemove, isCustomPeg }: FavoriteCardP
         <div className="flex-1 min-w-0">
           <div className="flex items-center gap-2">
             <p className="font-medium text-lg truncate">
-              {favorite.words.join(' + ')}
+              {favorite.words.map(stripWordMarkers).join(' + ')}
             </p>
             {isCustomPeg && (
               <Badge variant="secondary" className="text-xs shrink-0">
@@ -109,7 +112,7 @@ function FavoriteCard({ favorite, onCopy, onRemove, isCustomPeg }: FavoriteCardP
           <div className="flex items-center gap-2 text-xs text-muted-foreground">
             <span className="font-mono">{favorite.digits}</span>
             <span>•</span>
-            <span className="capitalize">{favorite.system.replace('-', ' ')}</span>
+            <span>{mnemonicSystems[favorite.system]?.name ?? favorite.system}</span>
           </div>
         </div>
         
@@ -1,4 +1,5 @@
 import { cn } from '@/lib/utils';
+import { SPAN_SEPARATOR } from '@/lib/graphemeAlignment';
 
 interface HighlightedWordProps {
   /** Word with uppercase letters indicating consonants to highlight */
@@ -8,20 +9,29 @@ interface HighlightedWordProps {
 
 /**
  * Renders a word in lowercase with the consonant letters (originally uppercase) 
- * displayed in bold and with primary color highlighting.
+ * displayed in bold and with primary color highlighting. Each highlighted span
+ * is its own element, so touching spans ("booK|Keeper") stay visibly apart.
  */
 export function HighlightedWord({ word, className }: HighlightedWordProps) {
-  const segments: { char: string; isConsonant: boolean }[] = [];
+  const segments: { text: string; isConsonant: boolean }[] = [];
+  let startsSpan = false;
   
   for (const char of word) {
     // Skip variant markers like (1), (2)
     if (char === '(' || char === ')' || /\d/.test(char)) continue;
+    if (char === SPAN_SEPARATOR) {
+      startsSpan = true;
+      continue;
+    }
     
     const isUpper = char === char.toUpperCase() && char !== char.toLowerCase();
-    segments.push({
-      char: char.toLowerCase(),
-      isConsonant: isUpper,
-    });
+    const last = segments[segments.length - 1];
+    if (last && last.isConsonant === isUpper && !startsSpan) {
+      last.text += char.toLowerCase();
+    } else {
+      segments.push({ text: char.toLowerCase(), isConsonant: isUpper });
+    }
+    startsSpan = false;
   }
 
   return (
@@ -30,10 +40,11 @@ export function HighlightedWord({ word, className }: HighlightedWordProps) {
         <span
           key={i}
           className={cn(
-            seg.isConsonant && "font-bold text-primary"
+            seg.isConsonant && "font-bold text-primary",
+            seg.isConsonant && segments[i - 1]?.isConsonant && "ml-px"
           )}
         >
-          {seg.char}
+          {seg.text}
         </span>
       ))}
     </span>
@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { HighlightedWord } from '@/components/HighlightedWord';
+import { DigitSequence } from '@/components/DigitSequence';
+import { useMatcherJob } from '@/hooks/useMatcherJob';
+import { Dictionary } from '@/lib/dictionaryService';
+import { MnemonicSystem } from '@/lib/mnemonicSystems';
+import { Favorite } from '@/hooks/useFavorites';
+import { ResultFilters } from '@/lib/resultFilters';
+import { stripWordMarkers } from '@/lib/dictionaryWords';
+import { StoryChunk } from '@/lib/longNumberStory';
+import { WordLock } from '@/lib/wordLocks';
+import { Copy, Loader2, Lock } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface LongNumberStoryProps {
+  digits: string;
+  dictionary: Dictionary | null;
+  system: MnemonicSystem;
+  customPegs: Favorite[];
+  filters: ResultFilters;
+  locks?: WordLock[];
+  onUnlock?: (start: number) => void;
+  onUnlockAll?: () => void;
+}
+
+// Choices are kept per chunk position and digits, so they survive edits elsewhere in the number
+function chunkKey(chunk: StoryChunk): string {
+  return `${chunk.start}:${chunk.digits}`;
+}
+
+/**
+ * A long number as a numbered story, one word per chunk of digits. Each
+ * chunk offers its alternative words; picking one swaps it into the story.
+ * Words locked while the number was shorter keep their chunks.
+ */
+export function LongNumberStory({ digits, dictionary, system, customPegs, filters, locks, onUnlock, onUnlockAll }: LongNumberStoryProps) {
+  const { results: chunks, isPending } = useMatcherJob('story', digits, system, dictionary, customPegs, filters, locks);
+  const lockedCount = chunks.filter(chunk => chunk.isLocked).length;
+  const [choices, setChoices] = useState<Record<string, string>>({});
+
+  const chosenWord = (chunk: StoryChunk) => choices[chunkKey(chunk)] ?? chunk.words[0];
+
+  const handleCopy = async () => {
+    const story = chunks.map(chunk => {
+      const word = chosenWord(chunk);
+      return word ? stripWordMarkers(word).toLowerCase() : chunk.digits;
+    });
+    await navigator.clipboard.writeText(story.join(' '));
+    toast.success('Copied to clipboard!');
+  };
+
+  if (chunks.length === 0 && !isPending) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">
+        <p className="text-lg">No story found for this number</p>
+      </div>
+    );
+  }
+
+  if (chunks.length === 0) {
+    return (
+      <div className="flex items-center justify-center py-12 text-muted-foreground">
+        <Loader2 className="h-6 w-6 animate-spin mr-2" />
+        <span>Writing the story...</span>
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="text-base flex items-center gap-2">
+              Story
+              {isPending && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            </CardTitle>
+            <p className="text-xs text-muted-foreground">
+              {chunks.length} words for {digits.length} digits. Tap an alternative to use it instead.
+              {lockedCount > 0 && onUnlockAll && (
+                <>
+                  {' '}{lockedCount} locked ·{' '}
+                  <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={onUnlockAll}>
+                    Unlock all
+                  </Button>
+                </>
+              )}
+            </p>
+          </div>
+          <Button variant="outline" size="sm" className="gap-2" onClick={handleCopy}>
+            <Copy className="h-4 w-4" />
+            Copy
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <ol className="space-y-2">
+          {chunks.map((chunk, index) => {
+            const word = chosenWord(chunk);
+            return (
+              <li key={chunkKey(chunk)} className="flex items-baseline gap-3">
+                <span className="w-8 shrink-0 text-right text-xs text-muted-foreground tabular-nums">{index + 1}.</span>
+                <DigitSequence digits={chunk.digits} className="w-28 shrink-0 text-sm" />
+                <div className="min-w-0 flex-1">
+                  {word ? (
+                    <span className="text-sm font-medium">
+                      <HighlightedWord word={word} />
+                      {chunk.customPegs.includes(word) && <span className="ml-1 text-xs text-primary">★</span>}
+                      {chunk.isLocked && (
+                        <button
+                          className="ml-1 align-middle text-primary hover:text-foreground"
+                          title="Unlock"
+                          disabled={!onUnlock}
+                          onClick={() => onUnlock?.(chunk.start)}
+                        >
+                          <Lock className="h-3 w-3" />
+                        </button>
+                      )}
+                    </span>
+                  ) : (
+                    <span className="text-sm text-muted-foreground italic">no word</span>
+                  )}
+                  <div className="flex flex-wrap gap-x-2">
+                    {chunk.words.filter(alternative => alternative !== word).map(alternative => (
+                      <button
+                        key={alternative}
+                        className="text-xs text-muted-foreground hover:text-foreground hover:underline"
+                        onClick={() => setChoices(previous => ({ ...previous, [chunkKey(chunk)]: alternative }))}
+                      >
+                        <HighlightedWord word={alternative} />
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,6 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { mnemonicSystems, MnemonicSystem, digitColors } from '@/lib/mnemonicSystems';
+import { getSystemConfig, MnemonicSystem, digitColors } from '@/lib/mnemonicSystems';
 import { ChevronDown, ChevronUp } from 'lucide-react';
 import { useState } from 'react';
 
@@ -10,7 +10,7 @@ interface MappingChartProps {
 
 export function MappingChart({ system }: MappingChartProps) {
   const [isExpanded, setIsExpanded] = useState(false);
-  const config = mnemonicSystems[system];
+  const config = getSystemConfig(system);
   const digits = ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'];
 
   return (
@@ -81,7 +81,8 @@ export function MappingChart({ system }: MappingChartProps) {
                 <li>• Vowels (a, e, i, o, u) have no value</li>
                 <li>• W, H, Y are also ignored</li>
                 <li>• Focus on <strong>sounds</strong>, not just letters</li>
-                <li>• "ph" sounds like "f", "th" is its own sound</li>
+                <li>• "ph" sounds like "f", soft "c" like "s", hard "c" like "k"</li>
+                <li>• Silent letters don't count (knee, lamb, write)</li>
               </ul>
             </div>
           </div>
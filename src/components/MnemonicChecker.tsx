@@ -0,0 +1,111 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Dictionary } from '@/lib/dictionaryService';
+import { DigitDiff, checkMnemonic, wordRiskInfo } from '@/lib/mnemonicChecker';
+import { MnemonicSystem } from '@/lib/mnemonicSystems';
+import { cn } from '@/lib/utils';
+import { AlertTriangle, CheckCircle2, XCircle } from 'lucide-react';
+
+interface MnemonicCheckerProps {
+  digits: string;
+  system: MnemonicSystem;
+  dictionary: Dictionary | null;
+}
+
+/**
+ * Check a phrase of the user's own against the digits being searched: an
+ * aligned diff of the digits, which words are wrong, and which are risky.
+ */
+export function MnemonicChecker({ digits, system, dictionary }: MnemonicCheckerProps) {
+  const [phrase, setPhrase] = useState('');
+  const check = useMemo(
+    () => (phrase.trim() ? checkMnemonic(phrase, digits, system, dictionary) : null),
+    [phrase, digits, system, dictionary]
+  );
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">Check your own mnemonic</CardTitle>
+        <p className="text-xs text-muted-foreground">Type a phrase to see whether it encodes {digits}</p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Input
+          value={phrase}
+          onChange={(e) => setPhrase(e.target.value)}
+          placeholder="Your phrase"
+        />
+
+        {check && (
+          <>
+            <div className="flex items-center gap-2 text-sm">
+              {check.isMatch ? (
+                <>
+                  <CheckCircle2 className="h-4 w-4 text-primary" />
+                  <span>Encodes {digits} exactly</span>
+                </>
+              ) : (
+                <>
+                  <XCircle className="h-4 w-4 text-destructive" />
+                  <span>Encodes {check.digits || 'no digits'}, not {digits}</span>
+                </>
+              )}
+            </div>
+
+            {!check.isMatch && <DiffTable diff={check.diff} />}
+
+            <div className="space-y-1">
+              {check.words.map(({ decoded, isCorrect, risks }, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className={cn('font-medium', !isCorrect && 'text-destructive line-through decoration-2')}>
+                    {decoded.word}
+                  </span>
+                  <span className="font-mono text-xs text-muted-foreground">{decoded.digits || '–'}</span>
+                  {risks.map(risk => (
+                    <Badge
+                      key={risk}
+                      variant="outline"
+                      className="gap-1 text-xs font-normal border-warning/50 text-warning"
+                      title={wordRiskInfo[risk].description}
+                    >
+                      <AlertTriangle className="h-3 w-3" />
+                      {wordRiskInfo[risk].label}
+                    </Badge>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Target digits over the phrase's digits, column by column
+function DiffTable({ diff }: { diff: DigitDiff[] }) {
+  const cell = 'w-6 text-center font-mono text-sm rounded';
+  const ok = 'bg-primary/10';
+  const bad = 'bg-destructive/15 text-destructive font-semibold';
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-grid gap-1" style={{ gridTemplateColumns: `auto repeat(${diff.length}, 1.5rem)` }}>
+        <span className="pr-2 text-xs text-muted-foreground self-center">Target</span>
+        {diff.map((d, i) => (
+          <span key={i} className={cn(cell, d.kind === 'match' ? ok : d.kind === 'extra' ? '' : bad)}>
+            {d.kind === 'match' ? d.digit : d.kind === 'extra' ? '·' : d.expected}
+          </span>
+        ))}
+        <span className="pr-2 text-xs text-muted-foreground self-center">Phrase</span>
+        {diff.map((d, i) => (
+          <span key={i} className={cn(cell, d.kind === 'match' ? ok : d.kind === 'missing' ? '' : bad)}>
+            {d.kind === 'match' ? d.digit : d.kind === 'missing' ? '·' : d.actual}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,44 +1,68 @@
-import { Switch } from '@/components/ui/switch';
-import { Label } from '@/components/ui/label';
-import { MnemonicSystem } from '@/lib/mnemonicSystems';
-import { Music, BookOpen } from 'lucide-react';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { SystemEditorDialog } from '@/components/SystemEditorDialog';
+import { CustomSystemDefinition, MnemonicSystem, builtInSystems, mnemonicSystems } from '@/lib/mnemonicSystems';
+import { Music, BookOpen, Palette } from 'lucide-react';
 
 interface ModeToggleProps {
   system: MnemonicSystem;
   onSystemChange: (system: MnemonicSystem) => void;
+  customSystems: CustomSystemDefinition[];
+  onSaveCustomSystem: (definition: Omit<CustomSystemDefinition, 'id'> & { id?: string }) => string;
+  onRemoveCustomSystem: (id: string) => void;
+  legacyDictionary?: boolean;
 }
 
-export function ModeToggle({ system, onSystemChange }: ModeToggleProps) {
-  const isDoReMajor = system === 'do-re-major';
+const systemIcons: Record<string, typeof Music> = {
+  'do-re-major': Music,
+  'major': BookOpen,
+};
+
+export function ModeToggle({
+  system,
+  onSystemChange,
+  customSystems,
+  onSaveCustomSystem,
+  onRemoveCustomSystem,
+  legacyDictionary,
+}: ModeToggleProps) {
+  const systemIds: MnemonicSystem[] = [...builtInSystems, ...customSystems.map(s => s.id)];
 
   return (
-    <div className="flex items-center justify-center gap-3 p-3 rounded-lg bg-muted/50">
-      <div className={`flex items-center gap-1.5 transition-opacity ${!isDoReMajor ? 'opacity-50' : ''}`}>
-        <Music className="h-4 w-4 text-primary" />
-        <Label 
-          htmlFor="mode-toggle" 
-          className={`text-sm font-medium cursor-pointer ${isDoReMajor ? 'text-primary' : 'text-muted-foreground'}`}
-        >
-          Do-Re-Major
-        </Label>
-      </div>
-      
-      <Switch
-        id="mode-toggle"
-        checked={!isDoReMajor}
-        onCheckedChange={(checked) => onSystemChange(checked ? 'major' : 'do-re-major')}
-        className="data-[state=checked]:bg-secondary"
+    <div className="flex items-center justify-center gap-2 p-3 rounded-lg bg-muted/50">
+      <ToggleGroup
+        type="single"
+        value={system}
+        // Radix reports an empty value when the active item is clicked again; keep the current system
+        onValueChange={(value) => value && onSystemChange(value)}
+        className="flex-wrap"
+      >
+        {systemIds.map(id => {
+          const Icon = systemIcons[id] ?? Palette;
+          const isActive = id === system;
+          return (
+            <ToggleGroupItem
+              key={id}
+              value={id}
+              size="sm"
+              className={`gap-1.5 ${isActive ? 'text-primary' : 'text-muted-foreground'}`}
+            >
+              <Icon className="h-4 w-4" />
+              <span className="text-sm font-medium">{mnemonicSystems[id]?.name ?? id}</span>
+            </ToggleGroupItem>
+          );
+        })}
+      </ToggleGroup>
+
+      <SystemEditorDialog
+        customSystems={customSystems}
+        currentSystem={system}
+        legacyDictionary={legacyDictionary}
+        onSave={(definition) => onSystemChange(onSaveCustomSystem(definition))}
+        onRemove={(id) => {
+          onRemoveCustomSystem(id);
+          if (id === system) onSystemChange('do-re-major');
+        }}
       />
-      
-      <div className={`flex items-center gap-1.5 transition-opacity ${isDoReMajor ? 'opacity-50' : ''}`}>
-        <BookOpen className="h-4 w-4 text-secondary-foreground" />
-        <Label 
-          htmlFor="mode-toggle" 
-          className={`text-sm font-medium cursor-pointer ${!isDoReMajor ? 'text-foreground' : 'text-muted-foreground'}`}
-        >
-          Major System
-        </Label>
-      </div>
     </div>
   );
 }
@@ -0,0 +1,134 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { DigitSequence } from '@/components/DigitSequence';
+import { Dictionary } from '@/lib/dictionaryService';
+import { DecodedWord, decodePhrase } from '@/lib/phraseDecoder';
+import { MnemonicSystem, digitColors, getSystemConfig, phonemeInfo } from '@/lib/mnemonicSystems';
+import { Search } from 'lucide-react';
+
+interface PhraseDecoderProps {
+  system: MnemonicSystem;
+  dictionary: Dictionary | null;
+  onSearch: (digits: string) => void;
+}
+
+/**
+ * Turn a word or phrase back into digits, with a breakdown of which letters
+ * spell each digit.
+ */
+export function PhraseDecoder({ system, dictionary, onSearch }: PhraseDecoderProps) {
+  const [phrase, setPhrase] = useState('');
+  const decoded = useMemo(() => decodePhrase(phrase, system, dictionary), [phrase, system, dictionary]);
+
+  return (
+    <div className="space-y-4">
+      <Textarea
+        value={phrase}
+        onChange={(e) => setPhrase(e.target.value)}
+        placeholder="Type a word or phrase (e.g. motor home wrecked)"
+        className="text-lg"
+        rows={2}
+      />
+
+      {decoded.words.length > 0 && (
+        <>
+          <div className="flex items-center justify-between gap-3 p-4 rounded-lg bg-muted/50">
+            {decoded.digits ? (
+              <DigitSequence digits={decoded.digits} className="text-2xl tracking-widest break-all" />
+            ) : (
+              <span className="text-sm text-muted-foreground">No consonants that map to digits</span>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1 shrink-0"
+              disabled={!decoded.digits}
+              onClick={() => onSearch(decoded.digits)}
+            >
+              <Search className="h-4 w-4" />
+              Search
+            </Button>
+          </div>
+
+          <p className="text-xs text-muted-foreground text-center">
+            Decoded with {getSystemConfig(system).name}
+          </p>
+
+          <div className="space-y-2">
+            {decoded.words.map((word, index) => (
+              <DecodedWordCard key={index} decoded={word} />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function DecodedWordCard({ decoded }: { decoded: DecodedWord }) {
+  // Colour each letter by the digit of the sound it spells
+  const letterDigits: (string | undefined)[] = [];
+  for (const sound of decoded.sounds) {
+    if (sound.start === undefined || sound.end === undefined || sound.digit === undefined) continue;
+    for (let i = sound.start; i < sound.end; i++) letterDigits[i] = sound.digit;
+  }
+
+  return (
+    <Card>
+      <CardContent className="p-3 space-y-2">
+        <div className="flex items-center justify-between gap-3">
+          <span className="text-lg">
+            {decoded.word.toLowerCase().split('').map((letter, i) => (
+              <span
+                key={i}
+                className={letterDigits[i] ? 'font-bold' : 'text-muted-foreground'}
+                style={letterDigits[i] ? { color: digitColors[letterDigits[i]!] } : undefined}
+              >
+                {letter}
+              </span>
+            ))}
+          </span>
+          <div className="flex items-center gap-2">
+            <Badge variant={decoded.source === 'dictionary' ? 'secondary' : 'outline'} className="text-xs font-normal">
+              {decoded.source === 'dictionary' ? 'Dictionary' : 'Spelling rules'}
+            </Badge>
+            {decoded.digits ? (
+              <DigitSequence digits={decoded.digits} />
+            ) : (
+              <span className="text-xs text-muted-foreground">none</span>
+            )}
+          </div>
+        </div>
+
+        {decoded.sounds.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {decoded.sounds.map((sound, i) => (
+              <span
+                key={i}
+                className="inline-flex items-center gap-1 rounded px-1.5 py-0.5 text-xs"
+                style={sound.digit !== undefined ? { backgroundColor: `${digitColors[sound.digit]}20` } : undefined}
+              >
+                <span className="font-mono">{phonemeInfo[sound.phoneme].label}</span>
+                <span className="text-muted-foreground">→</span>
+                {sound.digit !== undefined ? (
+                  <span className="font-mono font-semibold" style={{ color: digitColors[sound.digit] }}>{sound.digit}</span>
+                ) : (
+                  <span className="text-muted-foreground" title="This system gives the sound no digit">–</span>
+                )}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {decoded.alternativeDigits.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Also pronounced as {decoded.alternativeDigits.join(' or ')}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
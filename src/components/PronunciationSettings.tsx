@@ -0,0 +1,57 @@
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { AVAILABLE_LOCALES, Accent, Locale, accentInfo, getLocaleAccents, localeInfo, resolveAccent } from '@/lib/dictionaryService';
+
+interface PronunciationSettingsProps {
+  locale: Locale;
+  accent: Accent;
+  onLocaleChange: (locale: Locale) => void;
+  onAccentChange: (accent: Accent) => void;
+}
+
+export function PronunciationSettings({ locale, accent, onLocaleChange, onAccentChange }: PronunciationSettingsProps) {
+  const activeAccent = resolveAccent(locale, accent);
+  const canChooseAccent = getLocaleAccents(locale).length > 1;
+
+  return (
+    <div className="space-y-3 px-3">
+      <div className="flex items-center justify-between gap-3">
+        <Label className="text-sm font-medium">Dictionary</Label>
+        <ToggleGroup
+          type="single"
+          value={locale}
+          // Radix reports an empty value when the active item is clicked again; keep the current locale
+          onValueChange={(value) => value && onLocaleChange(value as Locale)}
+        >
+          {AVAILABLE_LOCALES.map(id => (
+            <ToggleGroupItem
+              key={id}
+              value={id}
+              size="sm"
+              title={localeInfo[id].description}
+              className={id === locale ? 'text-primary' : 'text-muted-foreground'}
+            >
+              <span className="text-sm font-medium">{localeInfo[id].label}</span>
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <div className="min-w-0">
+          <Label htmlFor="rhotic-accent" className="text-sm font-medium">
+            Pronounce the R
+          </Label>
+          <p className="text-xs text-muted-foreground">{accentInfo[activeAccent].description}</p>
+        </div>
+        <Switch
+          id="rhotic-accent"
+          checked={activeAccent === 'rhotic'}
+          disabled={!canChooseAccent}
+          onCheckedChange={(checked) => onAccentChange(checked ? 'rhotic' : 'non-rhotic')}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ResultFilters, hasActiveFilters } from '@/lib/resultFilters';
+import { ChevronDown, ChevronUp, Filter } from 'lucide-react';
+
+interface ResultFiltersPanelProps {
+  filters: ResultFilters;
+  onChange: (changes: Partial<ResultFilters>) => void;
+  onReset: () => void;
+  // Whether the dictionary carries part of speech and ratings (the rich format)
+  hasWordInfo: boolean;
+}
+
+const ANY_SYLLABLES = 'any';
+const SYLLABLE_LIMITS = ['1', '2', '3', '4'];
+
+/**
+ * Collapsible controls for filtering search results by part of speech,
+ * concreteness and length.
+ */
+export function ResultFiltersPanel({ filters, onChange, onReset, hasWordInfo }: ResultFiltersPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const isActive = hasActiveFilters(filters, hasWordInfo);
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="px-3">
+      <div className="flex items-center justify-between gap-3">
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="sm" className="gap-2 -ml-3">
+            <Filter className={`h-4 w-4 ${isActive ? 'text-primary' : ''}`} />
+            <span className="text-sm font-medium">Word filters{isActive && ' (on)'}</span>
+            {isOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          </Button>
+        </CollapsibleTrigger>
+        {isActive && (
+          <Button variant="ghost" size="sm" className="text-xs" onClick={onReset}>
+            Reset
+          </Button>
+        )}
+      </div>
+
+      <CollapsibleContent className="space-y-4 pt-2">
+        {!hasWordInfo && (
+          <p className="text-xs text-warning">
+            This dictionary has no part-of-speech or concreteness data, so only the syllable limit is offered.
+          </p>
+        )}
+
+        {hasWordInfo && (
+          <>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-3">
+                <Label htmlFor="nouns-only" className="text-sm">Nouns only</Label>
+                <Switch
+                  id="nouns-only"
+                  checked={filters.nounsOnly}
+                  onCheckedChange={(nounsOnly) => onChange({ nounsOnly })}
+                />
+              </div>
+              <div className="flex items-center gap-4 pl-1">
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="allow-verbs"
+                    checked={filters.allowVerbs}
+                    disabled={!filters.nounsOnly}
+                    onCheckedChange={(checked) => onChange({ allowVerbs: checked === true })}
+                  />
+                  <Label htmlFor="allow-verbs" className="text-xs text-muted-foreground">Allow verbs</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="allow-adjectives"
+                    checked={filters.allowAdjectives}
+                    disabled={!filters.nounsOnly}
+                    onCheckedChange={(checked) => onChange({ allowAdjectives: checked === true })}
+                  />
+                  <Label htmlFor="allow-adjectives" className="text-xs text-muted-foreground">Allow adjectives</Label>
+                </div>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between gap-3">
+              <Label htmlFor="hide-proper-nouns" className="text-sm">Hide names</Label>
+              <Switch
+                id="hide-proper-nouns"
+                checked={filters.hideProperNouns}
+                onCheckedChange={(hideProperNouns) => onChange({ hideProperNouns })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-3">
+                <Label className="text-sm">Minimum concreteness</Label>
+                <span className="text-xs text-muted-foreground">
+                  {filters.minConcreteness > 0 ? filters.minConcreteness.toFixed(1) : 'Any'}
+                </span>
+              </div>
+              {/* 1 (abstract) to 5 (concrete); the far left means no minimum */}
+              <Slider
+                min={0}
+                max={5}
+                step={0.5}
+                value={[filters.minConcreteness]}
+                onValueChange={([minConcreteness]) => onChange({ minConcreteness: minConcreteness < 1 ? 0 : minConcreteness })}
+              />
+            </div>
+          </>
+        )}
+
+        <div className="flex items-center justify-between gap-3">
+          <Label className="text-sm">Max syllables</Label>
+          <ToggleGroup
+            type="single"
+            value={filters.maxSyllables === null ? ANY_SYLLABLES : String(filters.maxSyllables)}
+            // Radix reports an empty value when the active item is clicked again; keep the current limit
+            onValueChange={(value) => value && onChange({ maxSyllables: value === ANY_SYLLABLES ? null : Number(value) })}
+          >
+            {[ANY_SYLLABLES, ...SYLLABLE_LIMITS].map(value => (
+              <ToggleGroupItem key={value} value={value} size="sm" className="text-sm">
+                {value === ANY_SYLLABLES ? 'Any' : value}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
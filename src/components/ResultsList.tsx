@@ -3,6 +3,7 @@ import { Button } from '@/components/ui/button';
 import { MatchResult } from '@/hooks/useMnemonicMatcher';
 import { MnemonicSystem } from '@/lib/mnemonicSystems';
 import { HighlightedWords } from '@/components/HighlightedWord';
+import { stripWordMarkers } from '@/lib/dictionaryWords';
 import { Heart, Copy, Check, Sparkles } from 'lucide-react';
 import { useState } from 'react';
 import { toast } from 'sonner';
@@ -25,7 +26,7 @@ export function ResultsList({
   const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
 
   const handleCopy = async (words: string[], index: number) => {
-    const text = words.join(' + ');
+    const text = words.map(stripWordMarkers).join(' + ');
     await navigator.clipboard.writeText(text);
     setCopiedIndex(index);
     toast.success('Copied to clipboard!');
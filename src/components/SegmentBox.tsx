@@ -1,12 +1,15 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
-import { Heart, ChevronDown, ChevronUp } from 'lucide-react';
+import { Heart, ChevronDown, ChevronUp, Ban, Plus, Lock, LockOpen } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
 import { Segment, SegmentMatch, getMatchesForDigits } from '@/hooks/useSegmentMatches';
 import { HighlightedWord } from '@/components/HighlightedWord';
 import { Dictionary } from '@/lib/dictionaryService';
 import { MnemonicSystem } from '@/lib/mnemonicSystems';
 import { Favorite } from '@/hooks/useFavorites';
+import { ResultFilters } from '@/lib/resultFilters';
+import { NearMiss, describeDigitEdit, formatDigitEdit } from '@/lib/nearMisses';
 import {
   Collapsible,
   CollapsibleContent,
@@ -18,8 +21,13 @@ interface SegmentBoxProps {
   dictionary: Dictionary;
   system: MnemonicSystem;
   customPegs: Favorite[];
+  filters: ResultFilters;
   onFavorite: (digits: string, word: string) => void;
   isFavorite: (digits: string, word: string) => boolean;
+  onBlock?: (word: string) => void;
+  onSavePeg?: (digits: string, word: string) => void;
+  onLock?: (start: number, digits: string, word: string) => void;
+  onUnlock?: (start: number) => void;
 }
 
 export function SegmentBox({
@@ -27,24 +35,94 @@ export function SegmentBox({
   dictionary,
   system,
   customPegs,
+  filters,
   onFavorite,
   isFavorite,
+  onBlock,
+  onSavePeg,
+  onLock,
+  onUnlock,
 }: SegmentBoxProps) {
   const [isExpanded, setIsExpanded] = useState(false);
-  const [allMatches, setAllMatches] = useState<SegmentMatch[] | null>(null);
+
+  // Load all matches when expanded, again if the filters change
+  const allMatches = useMemo<SegmentMatch[] | null>(
+    () => (isExpanded ? getMatchesForDigits(segment.digits, dictionary, system, customPegs, filters) : null),
+    [isExpanded, segment.digits, dictionary, system, customPegs, filters]
+  );
 
   const handleExpand = () => {
-    if (!isExpanded && !allMatches) {
-      // Load all matches when expanding
-      const matches = getMatchesForDigits(segment.digits, dictionary, system, customPegs);
-      setAllMatches(matches);
-    }
     setIsExpanded(!isExpanded);
   };
 
   const displayMatches = isExpanded && allMatches ? allMatches : segment.matches;
   const showExpandButton = segment.hasMore || (allMatches && allMatches.length > 5);
 
+  // A locked segment shows only its word; the rest of the number is matched around it
+  if (segment.isLocked) {
+    const word = segment.matches[0].word;
+    return (
+      <Card className="flex-1 min-w-0 border-primary">
+        <CardContent className="p-3">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-xs font-mono text-muted-foreground bg-muted px-1.5 py-0.5 rounded">
+              {segment.digits}
+            </span>
+            <Lock className="h-3 w-3 text-primary" />
+          </div>
+          <div className="flex items-center justify-between group hover:bg-muted/50 rounded px-1 -mx-1">
+            <div className="text-sm truncate flex-1 font-medium">
+              <HighlightedWord word={word} />
+            </div>
+            {onUnlock && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                title="Unlock this word"
+                onClick={() => onUnlock(segment.start)}
+              >
+                <LockOpen className="h-3 w-3" />
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // A segment without matches shows its near misses and invented words instead
+  if (segment.nearMisses || segment.invented) {
+    return (
+      <Card className="flex-1 min-w-0 border-dashed">
+        <CardContent className="p-3">
+          <div className="flex items-center mb-2">
+            <span className="text-xs font-mono text-muted-foreground bg-muted px-1.5 py-0.5 rounded">
+              {segment.digits}
+            </span>
+          </div>
+          <div className="space-y-1 max-h-40 overflow-y-auto">
+            {segment.nearMisses?.map((nearMiss, idx) => (
+              <NearMissRow key={idx} nearMiss={nearMiss} onBlock={onBlock} />
+            ))}
+          </div>
+          {segment.invented && segment.invented.length > 0 && (
+            <div className="space-y-1 mt-2 pt-2 border-t">
+              <p className="text-xs text-muted-foreground">Invented</p>
+              {segment.invented.map((word) => (
+                <InventedRow
+                  key={word}
+                  word={word}
+                  onSave={onSavePeg && (() => onSavePeg(segment.digits, word))}
+                />
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  }
+
   return (
     <Card className="flex-1 min-w-0">
       <Collapsible open={isExpanded} onOpenChange={handleExpand}>
@@ -73,36 +151,16 @@ export function SegmentBox({
               {segment.matches.length === 0 ? (
                 <p className="text-xs text-muted-foreground italic">No matches</p>
               ) : (
-                segment.matches.map((match, idx) => {
-                  const favorited = isFavorite(segment.digits, match.word);
-                  return (
-                    <div
-                      key={idx}
-                      className="flex items-center justify-between group hover:bg-muted/50 rounded px-1 -mx-1"
-                    >
-                      <div className="text-sm truncate flex-1">
-                        <HighlightedWord word={match.word} />
-                        {match.isCustomPeg && (
-                          <span className="ml-1 text-xs text-primary">★</span>
-                        )}
-                      </div>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className={`h-6 w-6 transition-opacity ${
-                          favorited ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
-                        }`}
-                        onClick={() => onFavorite(segment.digits, match.word)}
-                      >
-                        <Heart
-                          className={`h-3 w-3 ${
-                            favorited ? 'fill-red-500 text-red-500' : ''
-                          }`}
-                        />
-                      </Button>
-                    </div>
-                  );
-                })
+                segment.matches.map((match, idx) => (
+                  <MatchRow
+                    key={idx}
+                    match={match}
+                    isFavorite={isFavorite(segment.digits, match.word)}
+                    onFavorite={() => onFavorite(segment.digits, match.word)}
+                    onBlock={onBlock}
+                    onLock={onLock && (() => onLock(segment.start, segment.digits, match.word))}
+                  />
+                ))
               )}
               {segment.hasMore && !isExpanded && (
                 <CollapsibleTrigger asChild>
@@ -117,36 +175,16 @@ export function SegmentBox({
           {/* Expanded view: All matches with favorite buttons */}
           <CollapsibleContent>
             <div className="space-y-1 max-h-64 overflow-y-auto">
-              {displayMatches.map((match, idx) => {
-                const favorited = isFavorite(segment.digits, match.word);
-                return (
-                  <div
-                    key={idx}
-                    className="flex items-center justify-between group hover:bg-muted/50 rounded px-1 -mx-1"
-                  >
-                    <div className="text-sm truncate flex-1">
-                      <HighlightedWord word={match.word} />
-                      {match.isCustomPeg && (
-                        <span className="ml-1 text-xs text-primary">★</span>
-                      )}
-                    </div>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className={`h-6 w-6 transition-opacity ${
-                        favorited ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
-                      }`}
-                      onClick={() => onFavorite(segment.digits, match.word)}
-                    >
-                      <Heart
-                        className={`h-3 w-3 ${
-                          favorited ? 'fill-red-500 text-red-500' : ''
-                        }`}
-                      />
-                    </Button>
-                  </div>
-                );
-              })}
+              {displayMatches.map((match, idx) => (
+                <MatchRow
+                  key={idx}
+                  match={match}
+                  isFavorite={isFavorite(segment.digits, match.word)}
+                  onFavorite={() => onFavorite(segment.digits, match.word)}
+                  onBlock={onBlock}
+                  onLock={onLock && (() => onLock(segment.start, segment.digits, match.word))}
+                />
+              ))}
             </div>
           </CollapsibleContent>
         </CardContent>
@@ -154,3 +192,121 @@ export function SegmentBox({
     </Card>
   );
 }
+
+interface MatchRowProps {
+  match: SegmentMatch;
+  isFavorite: boolean;
+  onFavorite: () => void;
+  onBlock?: (word: string) => void;
+  onLock?: () => void;
+}
+
+function MatchRow({ match, isFavorite, onFavorite, onBlock, onLock }: MatchRowProps) {
+  return (
+    <div className="flex items-center justify-between group hover:bg-muted/50 rounded px-1 -mx-1">
+      <div className="text-sm truncate flex-1">
+        <HighlightedWord word={match.word} />
+        {match.isCustomPeg && (
+          <span className="ml-1 text-xs text-primary">★</span>
+        )}
+      </div>
+      {/* Custom pegs are the user's own choice, so only dictionary words can be blocked */}
+      {onBlock && !match.isCustomPeg && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
+          title="Block this word"
+          onClick={() => onBlock(match.word)}
+        >
+          <Ban className="h-3 w-3" />
+        </Button>
+      )}
+      {onLock && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
+          title="Lock this word here"
+          onClick={onLock}
+        >
+          <Lock className="h-3 w-3" />
+        </Button>
+      )}
+      <Button
+        variant="ghost"
+        size="icon"
+        className={`h-6 w-6 transition-opacity ${
+          isFavorite ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+        }`}
+        onClick={onFavorite}
+      >
+        <Heart
+          className={`h-3 w-3 ${
+            isFavorite ? 'fill-red-500 text-red-500' : ''
+          }`}
+        />
+      </Button>
+    </div>
+  );
+}
+
+interface NearMissRowProps {
+  nearMiss: NearMiss;
+  onBlock?: (word: string) => void;
+}
+
+// A near miss isn't a valid peg for the segment, so it can't be saved as a favourite
+function NearMissRow({ nearMiss, onBlock }: NearMissRowProps) {
+  return (
+    <div className="flex items-center justify-between gap-1 group hover:bg-muted/50 rounded px-1 -mx-1">
+      <div className="text-sm truncate flex-1">
+        <HighlightedWord word={nearMiss.word} />
+      </div>
+      <Badge
+        variant="outline"
+        className="px-1 font-mono text-xs font-normal border-warning/50 text-warning"
+        title={`${nearMiss.digits}: ${describeDigitEdit(nearMiss.edit)}`}
+      >
+        {formatDigitEdit(nearMiss.edit)}
+      </Badge>
+      {onBlock && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
+          title="Block this word"
+          onClick={() => onBlock(nearMiss.word)}
+        >
+          <Ban className="h-3 w-3" />
+        </Button>
+      )}
+    </div>
+  );
+}
+
+interface InventedRowProps {
+  word: string;
+  onSave?: () => void;
+}
+
+function InventedRow({ word, onSave }: InventedRowProps) {
+  return (
+    <div className="flex items-center justify-between group hover:bg-muted/50 rounded px-1 -mx-1">
+      <div className="text-sm truncate flex-1 italic">
+        <HighlightedWord word={word} />
+      </div>
+      {onSave && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
+          title="Save as a custom peg"
+          onClick={onSave}
+        >
+          <Plus className="h-3 w-3" />
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,28 @@
 import { SplitRow } from '@/components/SplitRow';
-import { useSegmentMatches } from '@/hooks/useSegmentMatches';
-import { Dictionary } from '@/lib/dictionaryService';
+import { SplitRow as SplitRowType, useSegmentMatches } from '@/hooks/useSegmentMatches';
+import { Dictionary, hasWordInfo } from '@/lib/dictionaryService';
 import { MnemonicSystem } from '@/lib/mnemonicSystems';
 import { Favorite } from '@/hooks/useFavorites';
+import { ResultFilters, hasActiveFilters } from '@/lib/resultFilters';
+import { WordLock } from '@/lib/wordLocks';
+import { HighlightedWord } from '@/components/HighlightedWord';
+import { Button } from '@/components/ui/button';
+import { Loader2, Lock } from 'lucide-react';
 
 interface SplitResultsListProps {
   digits: string;
   dictionary: Dictionary;
   system: MnemonicSystem;
   customPegs: Favorite[];
+  filters: ResultFilters;
   onFavorite: (digits: string, word: string) => void;
   isFavorite: (digits: string, word: string) => boolean;
+  onBlock?: (word: string) => void;
+  onSavePeg?: (digits: string, word: string) => void;
+  locks?: WordLock[];
+  onLock?: (start: number, digits: string, word: string) => void;
+  onUnlock?: (start: number) => void;
+  onUnlockAll?: () => void;
 }
 
 export function SplitResultsList({
@@ -18,12 +30,37 @@ export function SplitResultsList({
   dictionary,
   system,
   customPegs,
+  filters,
   onFavorite,
   isFavorite,
+  onBlock,
+  onSavePeg,
+  locks,
+  onLock,
+  onUnlock,
+  onUnlockAll,
 }: SplitResultsListProps) {
-  const splitRows = useSegmentMatches(digits, system, dictionary, customPegs);
+  const { splitRows, isPending } = useSegmentMatches(digits, system, dictionary, customPegs, filters, locks);
+  const exactRows = splitRows.filter(row => !row.isInexact);
+  const inexactRows = splitRows.filter(row => row.isInexact);
   const cleanDigits = digits.replace(/\D/g, '');
 
+  const lockedWords = locks && locks.length > 0 && (
+    <div className="flex flex-wrap items-center justify-center gap-x-2 gap-y-1 text-xs text-muted-foreground">
+      <Lock className="h-3 w-3" />
+      {locks.map(lock => (
+        <span key={lock.start}>
+          <HighlightedWord word={lock.word} /> <span className="font-mono">({lock.digits})</span>
+        </span>
+      ))}
+      {onUnlockAll && (
+        <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={onUnlockAll}>
+          Unlock all
+        </Button>
+      )}
+    </div>
+  );
+
   if (!cleanDigits) {
     return (
       <div className="text-center py-12 text-muted-foreground">
@@ -33,30 +70,69 @@ export function SplitResultsList({
     );
   }
 
+  if (splitRows.length === 0 && isPending) {
+    return (
+      <div className="flex items-center justify-center py-12 text-muted-foreground">
+        <Loader2 className="h-6 w-6 animate-spin mr-2" />
+        <span>Finding words...</span>
+      </div>
+    );
+  }
+
   if (splitRows.length === 0) {
     return (
-      <div className="text-center py-12 text-muted-foreground">
-        <p className="text-lg">No matches found for "{cleanDigits}"</p>
-        <p className="text-sm mt-2">Try a shorter number sequence</p>
+      <div className="text-center py-12 text-muted-foreground space-y-4">
+        <div>
+          <p className="text-lg">No matches found for "{cleanDigits}"</p>
+          <p className="text-sm mt-2">
+            {locks && locks.length > 0
+              ? 'Try unlocking words'
+              : hasActiveFilters(filters, hasWordInfo(dictionary)) ? 'Try loosening the word filters' : 'Try a shorter number sequence'}
+          </p>
+        </div>
+        {lockedWords}
       </div>
     );
   }
 
-  // Rows are already filtered by buildSplitRows - only rows where ALL segments have matches are included
+  // Rows are already filtered by buildSplitRows - only rows where ALL segments have matches
+  // (or, in inexact rows, near misses or invented words) are included
+  const renderRow = (splitRow: SplitRowType) => (
+    <SplitRow
+      key={splitRow.pattern}
+      splitRow={splitRow}
+      dictionary={dictionary}
+      system={system}
+      customPegs={customPegs}
+      filters={filters}
+      onFavorite={onFavorite}
+      isFavorite={isFavorite}
+      onBlock={onBlock}
+      onSavePeg={onSavePeg}
+      onLock={onLock}
+      onUnlock={onUnlock}
+    />
+  );
 
   return (
     <div className="space-y-4">
-      {splitRows.map((splitRow) => (
-        <SplitRow
-          key={splitRow.pattern}
-          splitRow={splitRow}
-          dictionary={dictionary}
-          system={system}
-          customPegs={customPegs}
-          onFavorite={onFavorite}
-          isFavorite={isFavorite}
-        />
-      ))}
+      {lockedWords}
+      {exactRows.length === 0 && (
+        <p className="text-sm text-center text-muted-foreground">No exact matches for "{cleanDigits}"</p>
+      )}
+      {exactRows.map(renderRow)}
+      {inexactRows.length > 0 && (
+        <div className="space-y-4 pt-2">
+          <div>
+            <h3 className="text-sm font-medium">Near misses and invented words</h3>
+            <p className="text-xs text-muted-foreground">
+              Near misses have one digit dropped (−), added (+) or changed (→).
+              Invented words encode the digits exactly; save one as a custom peg to use it.
+            </p>
+          </div>
+          {inexactRows.map(renderRow)}
+        </div>
+      )}
     </div>
   );
 }
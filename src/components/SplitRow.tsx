@@ -3,14 +3,20 @@ import { SegmentBox } from '@/components/SegmentBox';
 import { Dictionary } from '@/lib/dictionaryService';
 import { MnemonicSystem } from '@/lib/mnemonicSystems';
 import { Favorite } from '@/hooks/useFavorites';
+import { ResultFilters } from '@/lib/resultFilters';
 
 interface SplitRowProps {
   splitRow: SplitRowType;
   dictionary: Dictionary;
   system: MnemonicSystem;
   customPegs: Favorite[];
+  filters: ResultFilters;
   onFavorite: (digits: string, word: string) => void;
   isFavorite: (digits: string, word: string) => boolean;
+  onBlock?: (word: string) => void;
+  onSavePeg?: (digits: string, word: string) => void;
+  onLock?: (start: number, digits: string, word: string) => void;
+  onUnlock?: (start: number) => void;
 }
 
 export function SplitRow({
@@ -18,10 +24,17 @@ export function SplitRow({
   dictionary,
   system,
   customPegs,
+  filters,
   onFavorite,
   isFavorite,
+  onBlock,
+  onSavePeg,
+  onLock,
+  onUnlock,
 }: SplitRowProps) {
-  const hasAnyMatches = splitRow.segments.some(seg => seg.matches.length > 0);
+  const hasAnyMatches = splitRow.segments.some(
+    seg => seg.matches.length > 0 || seg.nearMisses?.length || seg.invented?.length
+  );
 
   if (!hasAnyMatches) {
     return null; // Don't show splits with no matches
@@ -48,8 +61,13 @@ export function SplitRow({
             dictionary={dictionary}
             system={system}
             customPegs={customPegs}
+            filters={filters}
             onFavorite={onFavorite}
             isFavorite={isFavorite}
+            onBlock={onBlock}
+            onSavePeg={onSavePeg}
+            onLock={onLock}
+            onUnlock={onUnlock}
           />
         ))}
       </div>
@@ -0,0 +1,235 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  BRIDGE_SOUNDS,
+  BridgeSound,
+  CustomSystemDefinition,
+  MnemonicSystem,
+  Phoneme,
+  bridgeSoundInfo,
+  digitColors,
+  getSystemConfig,
+  phonemeInfo,
+} from '@/lib/mnemonicSystems';
+import { Settings2, Pencil, Trash2, Plus } from 'lucide-react';
+
+interface SystemEditorDialogProps {
+  customSystems: CustomSystemDefinition[];
+  currentSystem: MnemonicSystem;
+  onSave: (definition: Omit<CustomSystemDefinition, 'id'> & { id?: string }) => void;
+  onRemove: (id: string) => void;
+  // The loaded dictionary only tells sound groups apart, so sounds are edited per group
+  legacyDictionary?: boolean;
+}
+
+type Draft = Omit<CustomSystemDefinition, 'id'> & { id?: string };
+
+const NO_DIGIT = 'none';
+const DIGITS = ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'];
+
+/**
+ * Dialog for creating, editing and deleting user-defined mnemonic systems.
+ * A system assigns each consonant phoneme to a digit (or to none).
+ */
+export function SystemEditorDialog({ customSystems, currentSystem, onSave, onRemove, legacyDictionary = false }: SystemEditorDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  // New systems start as a copy of the active system's phoneme assignments
+  const startNew = () => {
+    setDraft({
+      name: '',
+      description: '',
+      phonemeToDigit: { ...getSystemConfig(currentSystem).phonemeToDigit },
+    });
+  };
+
+  const setPhonemeDigit = (phoneme: Phoneme, digit: string) => {
+    if (!draft) return;
+    const phonemeToDigit = { ...draft.phonemeToDigit };
+    if (digit === NO_DIGIT) {
+      delete phonemeToDigit[phoneme];
+    } else {
+      phonemeToDigit[phoneme] = digit;
+    }
+    setDraft({ ...draft, phonemeToDigit });
+  };
+
+  const setGroupDigit = (group: BridgeSound, digit: string) => {
+    if (!draft) return;
+    const phonemeToDigit = { ...draft.phonemeToDigit };
+    for (const phoneme of bridgeSoundInfo[group].phonemes) {
+      if (digit === NO_DIGIT) {
+        delete phonemeToDigit[phoneme];
+      } else {
+        phonemeToDigit[phoneme] = digit;
+      }
+    }
+    setDraft({ ...draft, phonemeToDigit });
+  };
+
+  const renderDigitSelect = (digit: string | undefined, onChange: (value: string) => void) => (
+    <Select value={digit ?? NO_DIGIT} onValueChange={onChange}>
+      <SelectTrigger className="w-24 h-8" style={digit ? { color: digitColors[digit] } : undefined}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_DIGIT}>None</SelectItem>
+        {DIGITS.map(d => (
+          <SelectItem key={d} value={d}>{d}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const handleSave = () => {
+    if (!draft || !draft.name.trim()) return;
+    onSave({ ...draft, name: draft.name.trim(), description: draft.description.trim() });
+    setDraft(null);
+  };
+
+  const unusedDigits = draft
+    ? DIGITS.filter(d => !Object.values(draft.phonemeToDigit).includes(d))
+    : [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { setIsOpen(open); if (!open) setDraft(null); }}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" title="Edit custom systems">
+          <Settings2 className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Custom Systems</DialogTitle>
+          <DialogDescription>
+            Define your own digit-to-sound groupings. They are saved on this device.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!draft ? (
+          <div className="space-y-3">
+            {customSystems.length === 0 && (
+              <p className="text-sm text-muted-foreground">No custom systems yet.</p>
+            )}
+            {customSystems.map(definition => (
+              <div key={definition.id} className="flex items-center justify-between gap-2 p-2 rounded-lg border">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{definition.name}</p>
+                  {definition.description && (
+                    <p className="text-xs text-muted-foreground truncate">{definition.description}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setDraft({ ...definition })}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-destructive hover:text-destructive"
+                    onClick={() => onRemove(definition.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <Button variant="outline" className="w-full gap-2" onClick={startNew}>
+              <Plus className="h-4 w-4" />
+              New system
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="system-name">Name</Label>
+              <Input
+                id="system-name"
+                value={draft.name}
+                placeholder="e.g. Team Major"
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="system-description">Description</Label>
+              <Input
+                id="system-description"
+                value={draft.description}
+                placeholder="Optional"
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-1.5">
+              <Label>Sounds</Label>
+              <p className="text-xs text-muted-foreground">
+                Words containing a sound set to None are left out of the results.
+              </p>
+              {legacyDictionary && (
+                <p className="text-xs text-warning">
+                  The loaded dictionary only records sound groups, not the sounds within them,
+                  so each group takes a single digit until the dictionary is regenerated.
+                </p>
+              )}
+              {BRIDGE_SOUNDS.map(group => (
+                legacyDictionary ? (
+                  // The dictionary stands in for each group with its first phoneme, so that digit is the one matched
+                  <div key={group} className="flex items-center justify-between gap-2 pt-2">
+                    <span className="text-sm font-mono">{bridgeSoundInfo[group].label}</span>
+                    {renderDigitSelect(
+                      draft.phonemeToDigit[bridgeSoundInfo[group].phonemes[0]],
+                      (value) => setGroupDigit(group, value)
+                    )}
+                  </div>
+                ) : (
+                  <div key={group} className="pt-2 space-y-1.5">
+                    <p className="text-xs font-medium text-muted-foreground">{bridgeSoundInfo[group].label}</p>
+                    {bridgeSoundInfo[group].phonemes.map(phoneme => (
+                      <div key={phoneme} className="flex items-center justify-between gap-2">
+                        <span className="text-sm">
+                          <span className="font-mono">{phonemeInfo[phoneme].label}</span>
+                          <span className="ml-2 text-xs text-muted-foreground">as in "{phonemeInfo[phoneme].example}"</span>
+                        </span>
+                        {renderDigitSelect(draft.phonemeToDigit[phoneme], (value) => setPhonemeDigit(phoneme, value))}
+                      </div>
+                    ))}
+                  </div>
+                )
+              ))}
+            </div>
+
+            {unusedDigits.length > 0 && (
+              <p className="text-xs text-warning">
+                No sound is assigned to {unusedDigits.join(', ')}, so numbers containing
+                {unusedDigits.length === 1 ? ' it' : ' them'} will have no matches.
+              </p>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => setDraft(null)}>Cancel</Button>
+              <Button onClick={handleSave} disabled={!draft.name.trim()}>Save</Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,129 @@
+import { useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Favorite } from '@/hooks/useFavorites';
+import { WordLists } from '@/hooks/useWordLists';
+import { CustomSystemDefinition } from '@/lib/mnemonicSystems';
+import { SAVED_DATA_FILE_NAME, SavedDataFile, createSavedDataFile, parseSavedDataFile } from '@/lib/savedData';
+import { Ban, Check, Download, Upload, X } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface WordListsCardProps {
+  wordLists: WordLists;
+  favorites: Favorite[];
+  customSystems: CustomSystemDefinition[];
+  onBlock: (word: string) => void;
+  onAllow: (word: string) => void;
+  onUnlist: (word: string) => void;
+  onImport: (data: SavedDataFile) => void;
+}
+
+/**
+ * Manage the personal blocklist and allowlist, and export or import them
+ * together with the saved favourites and custom systems.
+ */
+export function WordListsCard({ wordLists, favorites, customSystems, onBlock, onAllow, onUnlist, onImport }: WordListsCardProps) {
+  const [word, setWord] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const addWord = (add: (word: string) => void) => {
+    const trimmed = word.trim();
+    if (!trimmed) return;
+    add(trimmed);
+    setWord('');
+  };
+
+  const handleExport = () => {
+    const file = createSavedDataFile(favorites, wordLists, customSystems);
+    const blob = new Blob([JSON.stringify(file, null, 2) + '\n'], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = SAVED_DATA_FILE_NAME;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const data = parseSavedDataFile(await file.text());
+      onImport(data);
+      const systems = data.customSystems.length > 0 ? `, ${data.customSystems.length} custom systems` : '';
+      toast.success(`Imported ${data.favorites.length} favourites${systems} and ${data.wordLists.blocked.length + data.wordLists.allowed.length} listed words`);
+    } catch (error) {
+      toast.error(`Import failed: ${(error as Error).message}`);
+    }
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base">Word Lists</CardTitle>
+          <div className="flex gap-1">
+            <Button variant="ghost" size="sm" className="gap-1" onClick={handleExport} title="Export favourites, word lists and custom systems">
+              <Download className="h-4 w-4" />
+              Export
+            </Button>
+            <Button variant="ghost" size="sm" className="gap-1" onClick={() => fileInput.current?.click()} title="Import an export file">
+              <Upload className="h-4 w-4" />
+              Import
+            </Button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => handleImport(e.target.files?.[0])}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Blocked words never appear in results; allowed words show even when the word filters would hide them.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex gap-2">
+          <Input
+            value={word}
+            onChange={(e) => setWord(e.target.value)}
+            placeholder="Word"
+            className="h-8"
+          />
+          <Button variant="outline" size="sm" className="gap-1" disabled={!word.trim()} onClick={() => addWord(onBlock)}>
+            <Ban className="h-4 w-4" />
+            Block
+          </Button>
+          <Button variant="outline" size="sm" className="gap-1" disabled={!word.trim()} onClick={() => addWord(onAllow)}>
+            <Check className="h-4 w-4" />
+            Allow
+          </Button>
+        </div>
+
+        <WordListRow label="Blocked" words={wordLists.blocked} onRemove={onUnlist} />
+        <WordListRow label="Allowed" words={wordLists.allowed} onRemove={onUnlist} />
+      </CardContent>
+    </Card>
+  );
+}
+
+function WordListRow({ label, words, onRemove }: { label: string; words: string[]; onRemove: (word: string) => void }) {
+  return (
+    <div className="flex flex-wrap items-center gap-1 text-sm">
+      <span className="text-xs text-muted-foreground w-16">{label}</span>
+      {words.length === 0 && <span className="text-xs text-muted-foreground">None</span>}
+      {words.map(w => (
+        <Badge key={w} variant="secondary" className="gap-1 pr-1">
+          {w}
+          <button onClick={() => onRemove(w)} title={`Remove "${w}"`}>
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { useState, useCallback, useRef } from 'react';
+import { BridgeSound, CustomSystemDefinition, expandBridgeDigits, registerCustomSystems } from '@/lib/mnemonicSystems';
+
+const STORAGE_KEY = 'do-re-major-custom-systems';
+
+// Systems saved before phoneme-level mappings assigned digits to whole sound groups
+type StoredSystem = CustomSystemDefinition & { bridgeToDigit?: Partial<Record<BridgeSound, string>> };
+
+function migrateSystem(stored: StoredSystem): CustomSystemDefinition {
+  const { bridgeToDigit, ...definition } = stored;
+  if (!definition.phonemeToDigit && bridgeToDigit) {
+    return { ...definition, phonemeToDigit: expandBridgeDigits(bridgeToDigit) };
+  }
+  return definition;
+}
+
+function loadCustomSystems(): CustomSystemDefinition[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      return (JSON.parse(stored) as StoredSystem[]).map(migrateSystem);
+    }
+  } catch (error) {
+    console.error('Failed to load custom systems:', error);
+  }
+  return [];
+}
+
+function saveCustomSystems(systems: CustomSystemDefinition[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(systems));
+  } catch (error) {
+    console.error('Failed to save custom systems:', error);
+  }
+}
+
+/**
+ * Hook to manage user-defined mnemonic systems.
+ * Systems are registered with mnemonicSystems so every matcher can use them by id.
+ */
+export function useCustomSystems() {
+  // Load synchronously so a custom system is registered before the first render uses it
+  const [customSystems, setCustomSystems] = useState<CustomSystemDefinition[]>(() => {
+    const loaded = loadCustomSystems();
+    registerCustomSystems(loaded);
+    return loaded;
+  });
+  // The current list, so changes are registered before the state update rather than in an updater
+  const systemsRef = useRef(customSystems);
+
+  const updateCustomSystems = useCallback((update: (systems: CustomSystemDefinition[]) => CustomSystemDefinition[]) => {
+    const updated = update(systemsRef.current);
+    systemsRef.current = updated;
+    registerCustomSystems(updated);
+    saveCustomSystems(updated);
+    setCustomSystems(updated);
+  }, []);
+
+  const saveCustomSystem = useCallback((definition: Omit<CustomSystemDefinition, 'id'> & { id?: string }) => {
+    const saved: CustomSystemDefinition = {
+      ...definition,
+      id: definition.id ?? `custom-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+    };
+
+    updateCustomSystems(prev => {
+      const exists = prev.some(s => s.id === saved.id);
+      return exists
+        ? prev.map(s => (s.id === saved.id ? saved : s))
+        : [...prev, saved];
+    });
+
+    return saved.id;
+  }, [updateCustomSystems]);
+
+  const removeCustomSystem = useCallback((id: string) => {
+    updateCustomSystems(prev => prev.filter(s => s.id !== id));
+  }, [updateCustomSystems]);
+
+  // Add imported systems, keeping the ones already saved under the same id
+  const importCustomSystems = useCallback((imported: CustomSystemDefinition[]) => {
+    updateCustomSystems(prev => {
+      const existing = new Set(prev.map(s => s.id));
+      return [...prev, ...imported.filter(s => !existing.has(s.id))];
+    });
+  }, [updateCustomSystems]);
+
+  return {
+    customSystems,
+    saveCustomSystem,
+    removeCustomSystem,
+    importCustomSystems,
+  };
+}
@@ -1,26 +1,50 @@
 import { useState, useEffect } from 'react';
-import { loadDictionary, Dictionary } from '@/lib/dictionaryService';
+import { loadDictionary, Accent, Dictionary, Locale } from '@/lib/dictionaryService';
+
+const FALLBACK_LOCALE: Locale = 'en_GB';
 
 /**
- * Hook to load and cache the dictionary.
+ * Hook to load and cache the dictionary for a locale and accent.
+ * If another locale's dictionary fails to load, onLocaleChange is asked to
+ * switch back to UK English so a broken choice isn't kept.
  */
-export function useDictionary() {
+export function useDictionary(
+  locale: Locale = FALLBACK_LOCALE,
+  accent: Accent = 'non-rhotic',
+  onLocaleChange?: (locale: Locale) => void
+) {
   const [dictionary, setDictionary] = useState<Dictionary | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    loadDictionary()
+    // Ignore a slower load for a dictionary the user has since switched away from
+    let isCurrent = true;
+    setIsLoading(true);
+    setError(null);
+
+    loadDictionary(locale, accent)
       .then(dict => {
+        if (!isCurrent) return;
         setDictionary(dict);
         setIsLoading(false);
       })
       .catch(err => {
+        if (!isCurrent) return;
+        if (locale !== FALLBACK_LOCALE && onLocaleChange) {
+          console.warn(`Dictionary for ${locale} unavailable, falling back to ${FALLBACK_LOCALE}:`, err);
+          onLocaleChange(FALLBACK_LOCALE);
+          return;
+        }
         console.error('Failed to load dictionary:', err);
         setError(err.message);
         setIsLoading(false);
       });
-  }, []);
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [locale, accent, onLocaleChange]);
 
   return { dictionary, isLoading, error };
 }
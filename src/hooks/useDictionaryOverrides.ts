@@ -0,0 +1,72 @@
+import { useState, useCallback } from 'react';
+import { DictionaryOverride, moveWordPins, parseOverrides } from '@/lib/dictionaryOverrides';
+
+const STORAGE_KEY = 'do-re-major-dictionary-overrides';
+
+function loadOverrides(): DictionaryOverride[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      return parseOverrides({ overrides: JSON.parse(stored) });
+    }
+  } catch (error) {
+    console.error('Failed to load dictionary overrides:', error);
+  }
+  return [];
+}
+
+function saveOverrides(overrides: DictionaryOverride[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides));
+  } catch (error) {
+    console.error('Failed to save dictionary overrides:', error);
+  }
+}
+
+// Two overrides that set the same thing, so the newer one replaces the older
+function isSameEdit(a: DictionaryOverride, b: DictionaryOverride): boolean {
+  return a.action === b.action
+    && a.word.toLowerCase() === b.word.toLowerCase()
+    && a.code === b.code
+    && a.locale === b.locale;
+}
+
+/**
+ * Hook to manage local dictionary edits made on the curation page.
+ * They preview in the search results and export as a generator overrides file.
+ */
+export function useDictionaryOverrides() {
+  // Load synchronously so the first search already previews the edits
+  const [overrides, setOverrides] = useState<DictionaryOverride[]>(loadOverrides);
+
+  const update = useCallback((change: (prev: DictionaryOverride[]) => DictionaryOverride[]) => {
+    setOverrides(prev => {
+      const updated = change(prev);
+      saveOverrides(updated);
+      return updated;
+    });
+  }, []);
+
+  const addOverride = useCallback((override: DictionaryOverride) => {
+    update(prev => [...prev.filter(o => !isSameEdit(o, override)), override]);
+  }, [update]);
+
+  // Pins the new order of the list's leading words; see moveWordPins
+  const moveWord = useCallback((code: string, words: string[], index: number, offset: number, locale?: string) => {
+    update(prev => moveWordPins(prev, code, words, index, offset, locale));
+  }, [update]);
+
+  const removeOverride = useCallback((index: number) => {
+    update(prev => prev.filter((_, i) => i !== index));
+  }, [update]);
+
+  const clearOverrides = useCallback(() => update(() => []), [update]);
+
+  return {
+    overrides,
+    addOverride,
+    moveWord,
+    removeOverride,
+    clearOverrides,
+  };
+}
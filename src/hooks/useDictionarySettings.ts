@@ -0,0 +1,63 @@
+import { useState, useCallback } from 'react';
+import { AVAILABLE_LOCALES, Accent, Locale, accentInfo } from '@/lib/dictionaryService';
+
+export interface DictionarySettings {
+  locale: Locale;
+  // Preferred accent; locales with a single dictionary use their own
+  accent: Accent;
+}
+
+const STORAGE_KEY = 'do-re-major-dictionary-settings';
+
+const DEFAULT_SETTINGS: DictionarySettings = { locale: 'en_GB', accent: 'non-rhotic' };
+
+function loadSettings(): DictionarySettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as Partial<DictionarySettings>;
+      // Ignore locales this build has no dictionary for
+      return {
+        locale: parsed.locale && AVAILABLE_LOCALES.includes(parsed.locale) ? parsed.locale : DEFAULT_SETTINGS.locale,
+        accent: parsed.accent && parsed.accent in accentInfo ? parsed.accent : DEFAULT_SETTINGS.accent,
+      };
+    }
+  } catch (error) {
+    console.error('Failed to load dictionary settings:', error);
+  }
+  return DEFAULT_SETTINGS;
+}
+
+function saveSettings(settings: DictionarySettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save dictionary settings:', error);
+  }
+}
+
+/**
+ * Hook to manage which dictionary (locale and accent) is used, remembered on this device.
+ */
+export function useDictionarySettings() {
+  // Load synchronously so the first dictionary fetched is the remembered one
+  const [settings, setSettings] = useState<DictionarySettings>(loadSettings);
+
+  const updateSettings = useCallback((changes: Partial<DictionarySettings>) => {
+    setSettings(prev => {
+      const updated = { ...prev, ...changes };
+      saveSettings(updated);
+      return updated;
+    });
+  }, []);
+
+  const setLocale = useCallback((locale: Locale) => updateSettings({ locale }), [updateSettings]);
+  const setAccent = useCallback((accent: Accent) => updateSettings({ accent }), [updateSettings]);
+
+  return {
+    locale: settings.locale,
+    accent: settings.accent,
+    setLocale,
+    setAccent,
+  };
+}
@@ -0,0 +1,82 @@
+import { useState, useCallback } from 'react';
+
+interface FamilySafeSettings {
+  enabled: boolean;
+  // SHA-256 of the PIN while locked; a locked mode can't be turned off without it
+  pinHash: string | null;
+}
+
+const STORAGE_KEY = 'do-re-major-family-safe';
+
+const DEFAULT_SETTINGS: FamilySafeSettings = { enabled: false, pinHash: null };
+
+function loadSettings(): FamilySafeSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as Partial<FamilySafeSettings>;
+      const pinHash = typeof parsed.pinHash === 'string' ? parsed.pinHash : null;
+      // A lock always keeps the mode on
+      return { enabled: parsed.enabled === true || pinHash !== null, pinHash };
+    }
+  } catch (error) {
+    console.error('Failed to load family-safe settings:', error);
+  }
+  return DEFAULT_SETTINGS;
+}
+
+function saveSettings(settings: FamilySafeSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save family-safe settings:', error);
+  }
+}
+
+async function hashPin(pin: string): Promise<string> {
+  // Browsers only offer hashing on secure (https or localhost) pages
+  if (!globalThis.crypto?.subtle) {
+    throw new Error('PINs need the app to be opened over https');
+  }
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`do-re-major:${pin}`));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Hook to manage family-safe mode, which hides vulgar, sexual and slur words
+ * from every result. The mode can be locked on with a PIN, remembered on this
+ * device, so that only someone who knows the PIN can turn it off.
+ */
+export function useFamilySafeMode() {
+  const [settings, setSettings] = useState<FamilySafeSettings>(loadSettings);
+
+  const update = useCallback((updated: FamilySafeSettings) => {
+    setSettings(updated);
+    saveSettings(updated);
+  }, []);
+
+  // Ignored while locked; unlock first
+  const setFamilySafe = useCallback((enabled: boolean) => {
+    if (settings.pinHash) return;
+    update({ enabled, pinHash: null });
+  }, [settings.pinHash, update]);
+
+  const lock = useCallback(async (pin: string) => {
+    update({ enabled: true, pinHash: await hashPin(pin) });
+  }, [update]);
+
+  // Returns whether the PIN was right; the mode stays on, unlocked
+  const unlock = useCallback(async (pin: string) => {
+    if (!settings.pinHash || (await hashPin(pin)) !== settings.pinHash) return false;
+    update({ enabled: true, pinHash: null });
+    return true;
+  }, [settings.pinHash, update]);
+
+  return {
+    familySafe: settings.enabled,
+    isLocked: settings.pinHash !== null,
+    setFamilySafe,
+    lock,
+    unlock,
+  };
+}
@@ -1,16 +1,19 @@
 import { useState, useEffect, useCallback } from 'react';
+import { MnemonicSystem } from '@/lib/mnemonicSystems';
 
 export interface Favorite {
   id: string;
   digits: string;
   words: string[];
-  system: 'do-re-major' | 'major';
+  system: MnemonicSystem;
   createdAt: number;
   isCustomPeg?: boolean; // User-defined peg (e.g., "doll" for 16)
 }
 
 const STORAGE_KEY = 'do-re-major-favorites';
 
+const createFavoriteId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+
 function loadFavorites(): Favorite[] {
   try {
     const stored = localStorage.getItem(STORAGE_KEY);
@@ -42,7 +45,7 @@ export function useFavorites() {
   const addFavorite = useCallback((favorite: Omit<Favorite, 'id' | 'createdAt'>) => {
     const newFavorite: Favorite = {
       ...favorite,
-      id: `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+      id: createFavoriteId(),
       createdAt: Date.now(),
     };
 
@@ -62,9 +65,9 @@ export function useFavorites() {
     });
   }, []);
 
-  const addCustomPeg = useCallback((digits: string, word: string, system: 'do-re-major' | 'major') => {
+  const addCustomPeg = useCallback((digits: string, word: string, system: MnemonicSystem) => {
     const newFavorite: Favorite = {
-      id: `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+      id: createFavoriteId(),
       digits,
       words: [word],
       system,
@@ -97,7 +100,7 @@ export function useFavorites() {
     });
   }, []);
 
-  const isFavorite = useCallback((digits: string, words: string[], system: 'do-re-major' | 'major') => {
+  const isFavorite = useCallback((digits: string, words: string[], system: MnemonicSystem) => {
     return favorites.some(
       f => f.digits === digits && 
            f.words.join('+') === words.join('+') &&
@@ -105,13 +108,28 @@ export function useFavorites() {
     );
   }, [favorites]);
 
+  // Add imported favourites, skipping any already saved. Imports get new ids,
+  // as ids from another device may collide with the ones saved here
+  const importFavorites = useCallback((imported: Favorite[]) => {
+    setFavorites(prev => {
+      const key = (f: Favorite) => `${f.system}|${f.digits}|${f.words.join('+')}|${f.isCustomPeg ? 'peg' : ''}`;
+      const existing = new Set(prev.map(key));
+      const added = imported
+        .filter(f => !existing.has(key(f)))
+        .map(f => ({ ...f, id: createFavoriteId() }));
+      const updated = [...added, ...prev];
+      saveFavorites(updated);
+      return updated;
+    });
+  }, []);
+
   const clearAllFavorites = useCallback(() => {
     setFavorites([]);
     saveFavorites([]);
   }, []);
 
   // Get custom pegs for a specific system
-  const getCustomPegs = useCallback((system: 'do-re-major' | 'major') => {
+  const getCustomPegs = useCallback((system: MnemonicSystem) => {
     return favorites.filter(f => f.isCustomPeg && f.system === system);
   }, [favorites]);
 
@@ -121,6 +139,7 @@ export function useFavorites() {
     addCustomPeg,
     removeFavorite,
     isFavorite,
+    importFavorites,
     clearAllFavorites,
     getCustomPegs,
   };
@@ -0,0 +1,68 @@
+import { useEffect, useState } from 'react';
+import { MnemonicSystem, getSystemConfig } from '@/lib/mnemonicSystems';
+import { Dictionary } from '@/lib/dictionaryService';
+import { ResultFilters } from '@/lib/resultFilters';
+import { Favorite } from '@/hooks/useFavorites';
+import { WordLock } from '@/lib/wordLocks';
+import { MatchKind, MatchResults } from '@/workers/matcherProtocol';
+import { startMatchJob } from '@/workers/matcherClient';
+
+// Shared default, as a new array would restart matching on every render
+const NO_LOCKS: WordLock[] = [];
+
+export interface MatcherJobState<K extends MatchKind> {
+  results: MatchResults[K];
+  // A newer search is still running; results are from the previous one until it posts
+  isPending: boolean;
+}
+
+/**
+ * Hook to match digits in the matcher worker. Each change of input cancels
+ * the running job and starts a new one; results update as it streams them.
+ * Inputs must be memoised, since a new array or object starts a new job.
+ */
+export function useMatcherJob<K extends MatchKind>(
+  kind: K,
+  digits: string,
+  system: MnemonicSystem,
+  dictionary: Dictionary | null,
+  customPegs: Favorite[],
+  filters: ResultFilters,
+  locks: WordLock[] = NO_LOCKS
+): MatcherJobState<K> {
+  // Pending from the start when there's something to match, so nothing flashes "no results"
+  const [state, setState] = useState<MatcherJobState<K>>(() => ({
+    results: [],
+    isPending: Boolean(dictionary && digits.replace(/\D/g, '')),
+  }));
+  // Editing a custom system registers a new config under the same id
+  const systemConfig = getSystemConfig(system);
+
+  useEffect(() => {
+    const cleanDigits = digits.replace(/\D/g, '');
+    if (!dictionary || !cleanDigits) {
+      setState({ results: [], isPending: false });
+      return;
+    }
+
+    setState(previous => ({ ...previous, isPending: true }));
+    return startMatchJob({ kind, digits: cleanDigits, system, dictionary, customPegs, filters, locks }, response => {
+      switch (response.type) {
+        case 'results':
+          // Requests of this kind only get results of this kind
+          setState({ results: response.results as MatchResults[K], isPending: true });
+          break;
+        case 'done':
+          setState(previous => ({ ...previous, isPending: false }));
+          break;
+        case 'error':
+          console.error('Matching failed:', response.message);
+          setState({ results: [], isPending: false });
+          break;
+      }
+    });
+  // systemConfig restarts the job when a custom system is edited
+  }, [kind, digits, system, systemConfig, dictionary, customPegs, filters, locks]);
+
+  return state;
+}
@@ -1,7 +1,11 @@
-import { useMemo } from 'react';
-import { MnemonicSystem, mnemonicSystems } from '@/lib/mnemonicSystems';
+import { MnemonicSystem } from '@/lib/mnemonicSystems';
+import { spellingToPhonemeCode } from '@/lib/spellingRules';
+import { wordKey } from '@/lib/dictionaryWords';
+import { DEFAULT_FILTERS, ResultFilters, applyResultFilters } from '@/lib/resultFilters';
 import { Favorite } from '@/hooks/useFavorites';
-import { Dictionary, findWordsForDigits } from '@/lib/dictionaryService';
+import { useMatcherJob } from '@/hooks/useMatcherJob';
+import { WordLock, getActiveLocks } from '@/lib/wordLocks';
+import { Dictionary, phonemeCodeToDigits, findPhonemeCodesForWord, findWordsForDigits, getDictionaryAccent } from '@/lib/dictionaryService';
 import { 
   findOptimalCombinations, 
   findPartialMatches, 
@@ -17,56 +21,26 @@ export interface MatchResult {
   isCustomPeg?: boolean;
 }
 
-// Convert a word to its digit sequence based on the mnemonic system (for validation)
-export function wordToDigits(word: string, system: MnemonicSystem): string {
-  const config = mnemonicSystems[system];
-  const lowerWord = word.toLowerCase();
-  let digits = '';
-  let i = 0;
-
-  while (i < lowerWord.length) {
-    let matched = false;
-    
-    // Skip consecutive identical consonants (e.g., ll, ss, tt) - treat as single sound
-    if (i > 0 && lowerWord[i] === lowerWord[i - 1] && config.consonantToDigit[lowerWord[i]] !== undefined) {
-      i++;
-      continue;
-    }
-    
-    // Try matching multi-character consonant patterns first (longest first)
-    const multiPatterns = ['sch', 'tch', 'dge', 'ck', 'ph', 'th', 'ch', 'sh', 'sc', 'ss', 'ge', 'dg'];
-    
-    for (const pattern of multiPatterns) {
-      if (lowerWord.slice(i).startsWith(pattern)) {
-        const digit = config.consonantToDigit[pattern];
-        if (digit !== undefined) {
-          digits += digit;
-          i += pattern.length;
-          matched = true;
-          break;
-        }
-      }
-    }
-
-    if (!matched) {
-      // Try single character
-      const char = lowerWord[i];
-      const digit = config.consonantToDigit[char];
-      if (digit !== undefined) {
-        digits += digit;
-      }
-      // Skip vowels and other non-mapped characters
-      i++;
-    }
-  }
+// Convert a word to its digit sequence based on the mnemonic system (for validation).
+// Uses the dictionary's pronunciation when the word is listed, so the validator
+// agrees with the suggestions; otherwise falls back to spelling rules.
+export function wordToDigits(word: string, system: MnemonicSystem, dictionary?: Dictionary | null): string {
+  return getWordDigitOptions(word, system, dictionary)[0] ?? '';
+}
 
-  return digits;
+// All digit sequences a word can stand for: one per dictionary pronunciation,
+// or the spelling-based estimate (in the dictionary's accent) for unknown words
+export function getWordDigitOptions(word: string, system: MnemonicSystem, dictionary?: Dictionary | null): string[] {
+  const dictionaryCodes = dictionary ? findPhonemeCodesForWord(dictionary, word) : [];
+  const rhotic = dictionary ? getDictionaryAccent(dictionary) === 'rhotic' : false;
+  const phonemeCodes = dictionaryCodes.length > 0 ? dictionaryCodes : [spellingToPhonemeCode(word, { rhotic })];
+  return [...new Set(phonemeCodes.map(code => phonemeCodeToDigits(code, system)))];
 }
 
 // Check if two words are exactly the same (only filter true duplicates)
 function areSimilar(word1: string, word2: string): boolean {
-  const w1 = word1.toLowerCase();
-  const w2 = word2.toLowerCase();
+  const w1 = wordKey(word1);
+  const w2 = wordKey(word2);
   
   // Only filter exact matches - allow variations like run/running
   return w1 === w2;
@@ -89,7 +63,7 @@ function diversifyResults(results: MatchResult[], maxResults: number): MatchResu
     // Custom pegs always get included
     if (!hasSimilar || result.isCustomPeg) {
       diversified.push(result);
-      result.words.forEach(w => usedWords.add(w.toLowerCase()));
+      result.words.forEach(w => usedWords.add(wordKey(w)));
     }
     
     if (diversified.length >= maxResults) break;
@@ -111,20 +85,24 @@ function convertToMatchResults(dijkstraResults: DijkstraResult[]): MatchResult[]
 }
 
 // Find word combinations using Dijkstra's algorithm
-function findWordCombinations(
+export function findWordCombinations(
   targetDigits: string,
   dictionary: Dictionary,
   system: MnemonicSystem,
   customPegs: Favorite[],
-  maxResults: number = 20
+  maxResults: number = 20,
+  filters: ResultFilters = DEFAULT_FILTERS,
+  locks: WordLock[] = []
 ): MatchResult[] {
   if (!targetDigits) return [];
   
   const results: MatchResult[] = [];
   const seen = new Set<string>();
+  // With words locked, only combinations around them will do: no single words or partial matches
+  const isLocked = getActiveLocks(locks, targetDigits).length > 0;
   
   // First, check for exact custom peg matches (highest priority)
-  for (const peg of customPegs) {
+  for (const peg of isLocked ? [] : customPegs) {
     if (peg.digits === targetDigits) {
       const key = `peg:${peg.words.join('+')}`;
       if (!seen.has(key)) {
@@ -142,7 +120,7 @@ function findWordCombinations(
   }
   
   // Find exact single-word matches from dictionary (high priority)
-  const exactWords = findWordsForDigits(dictionary, targetDigits, system);
+  const exactWords = isLocked ? [] : findWordsForDigits(applyResultFilters(dictionary, filters), targetDigits, system);
   for (const word of exactWords.slice(0, 15)) {
     const key = word;
     if (!seen.has(key)) {
@@ -163,7 +141,10 @@ function findWordCombinations(
     dictionary, 
     system, 
     customPegs, 
-    50 // Abort after 50 matches
+    50, // Abort after 50 matches
+    filters,
+    undefined,
+    locks
   );
   
   // Convert and add Dijkstra results (skip single-word exact matches we already have)
@@ -185,8 +166,8 @@ function findWordCombinations(
   }
   
   // Add partial matches if we don't have enough full matches
-  if (results.filter(r => r.isFullMatch).length < maxResults) {
-    const partialResults = findPartialMatches(targetDigits, dictionary, system, customPegs, 10);
+  if (!isLocked && results.filter(r => r.isFullMatch).length < maxResults) {
+    const partialResults = findPartialMatches(targetDigits, dictionary, system, customPegs, 10, filters);
     const convertedPartials = convertToMatchResults(partialResults);
     
     for (const partial of convertedPartials) {
@@ -221,25 +202,23 @@ function findWordCombinations(
   return diversifyResults(results, maxResults);
 }
 
+// Shared defaults, as a new array would restart matching on every render
+const NO_CUSTOM_PEGS: Favorite[] = [];
+const NO_LOCKS: WordLock[] = [];
+
 export function useMnemonicMatcher(
   digits: string, 
   system: MnemonicSystem, 
   dictionary: Dictionary | null,
-  customPegs: Favorite[] = []
+  customPegs: Favorite[] = NO_CUSTOM_PEGS,
+  filters: ResultFilters = DEFAULT_FILTERS,
+  locks: WordLock[] = NO_LOCKS
 ) {
-  const results = useMemo(() => {
-    if (!dictionary) return [];
-    
-    const cleanDigits = digits.replace(/\D/g, '');
-    if (!cleanDigits) return [];
-    
-    return findWordCombinations(cleanDigits, dictionary, system, customPegs, 50);
-  }, [digits, system, dictionary, customPegs]);
-  
-  return results;
+  // Matched in the worker, so typing stays responsive
+  return useMatcherJob('combinations', digits, system, dictionary, customPegs, filters, locks);
 }
 
 // Export utility for getting word's digit representation
-export function getWordDigits(word: string, system: MnemonicSystem): string {
-  return wordToDigits(word, system);
+export function getWordDigits(word: string, system: MnemonicSystem, dictionary?: Dictionary | null): string {
+  return wordToDigits(word, system, dictionary);
 }
@@ -0,0 +1,60 @@
+import { useState, useCallback } from 'react';
+import { DEFAULT_FILTERS, ResultFilters } from '@/lib/resultFilters';
+
+const STORAGE_KEY = 'do-re-major-result-filters';
+
+function loadFilters(): ResultFilters {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as Partial<ResultFilters>;
+      // Fall back to the default for any setting that is missing or malformed
+      const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+      return {
+        nounsOnly: isBoolean(parsed.nounsOnly) ? parsed.nounsOnly : DEFAULT_FILTERS.nounsOnly,
+        allowVerbs: isBoolean(parsed.allowVerbs) ? parsed.allowVerbs : DEFAULT_FILTERS.allowVerbs,
+        allowAdjectives: isBoolean(parsed.allowAdjectives) ? parsed.allowAdjectives : DEFAULT_FILTERS.allowAdjectives,
+        minConcreteness: typeof parsed.minConcreteness === 'number' ? parsed.minConcreteness : DEFAULT_FILTERS.minConcreteness,
+        maxSyllables: typeof parsed.maxSyllables === 'number' ? parsed.maxSyllables : DEFAULT_FILTERS.maxSyllables,
+        hideProperNouns: isBoolean(parsed.hideProperNouns) ? parsed.hideProperNouns : DEFAULT_FILTERS.hideProperNouns,
+      };
+    }
+  } catch (error) {
+    console.error('Failed to load result filters:', error);
+  }
+  return DEFAULT_FILTERS;
+}
+
+function saveFilters(filters: ResultFilters): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(filters));
+  } catch (error) {
+    console.error('Failed to save result filters:', error);
+  }
+}
+
+/**
+ * Hook to manage the search result filters, remembered on this device.
+ */
+export function useResultFilters() {
+  const [filters, setFilters] = useState<ResultFilters>(loadFilters);
+
+  const updateFilters = useCallback((changes: Partial<ResultFilters>) => {
+    setFilters(prev => {
+      const updated = { ...prev, ...changes };
+      saveFilters(updated);
+      return updated;
+    });
+  }, []);
+
+  const resetFilters = useCallback(() => {
+    setFilters(DEFAULT_FILTERS);
+    saveFilters(DEFAULT_FILTERS);
+  }, []);
+
+  return {
+    filters,
+    updateFilters,
+    resetFilters,
+  };
+}
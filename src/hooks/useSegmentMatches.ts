@@ -1,8 +1,13 @@
-import { useMemo } from 'react';
 import { MnemonicSystem } from '@/lib/mnemonicSystems';
 import { Favorite } from '@/hooks/useFavorites';
-import { Dictionary, findWordsForDigits } from '@/lib/dictionaryService';
-import { getDisplaySplits, DigitSplit } from '@/lib/digitSplitter';
+import { useMatcherJob } from '@/hooks/useMatcherJob';
+import { Dictionary, findPhonemeCodesForWord, findWordsForDigits, getDictionaryAccent } from '@/lib/dictionaryService';
+import { wordKey } from '@/lib/dictionaryWords';
+import { DEFAULT_FILTERS, ResultFilters, applyResultFilters } from '@/lib/resultFilters';
+import { generateViableSplits, splitWeight } from '@/lib/digitSplitter';
+import { WordLock, findLock, getActiveLocks, isFreeRange } from '@/lib/wordLocks';
+import { NearMiss, findNearMisses } from '@/lib/nearMisses';
+import { generatePseudoWords } from '@/lib/pseudoWords';
 
 export interface SegmentMatch {
   word: string;
@@ -11,24 +16,39 @@ export interface SegmentMatch {
 
 export interface Segment {
   digits: string;
+  // Position of the segment's first digit in the number
+  start: number;
   matches: SegmentMatch[];
   hasMore: boolean;
+  // For a segment with no matches: words one digit off, and invented words
+  nearMisses?: NearMiss[];
+  invented?: string[];
+  // The user locked this segment's word, its only match
+  isLocked?: boolean;
 }
 
 export interface SplitRow {
   pattern: string;
   parts: string[];
   segments: Segment[];
+  // One segment has no matches, only near misses or invented words
+  isInexact?: boolean;
 }
 
+// Shorter sequences almost always have words; near misses for them would only be noise
+const MIN_INEXACT_LENGTH = 3;
+const MAX_INEXACT_ROWS = 5;
+
 /**
  * Get all matching words for a specific digit segment.
+ * Dictionary words are limited to those the filters allow; custom pegs always count.
  */
 export function getMatchesForDigits(
   digits: string,
   dictionary: Dictionary,
   system: MnemonicSystem,
-  customPegs: Favorite[]
+  customPegs: Favorite[],
+  filters: ResultFilters = DEFAULT_FILTERS
 ): SegmentMatch[] {
   const results: SegmentMatch[] = [];
   const seen = new Set<string>();
@@ -37,18 +57,18 @@ export function getMatchesForDigits(
   for (const peg of customPegs) {
     if (peg.digits === digits && peg.words.length === 1) {
       const word = peg.words[0];
-      if (!seen.has(word.toLowerCase())) {
-        seen.add(word.toLowerCase());
+      if (!seen.has(wordKey(word))) {
+        seen.add(wordKey(word));
         results.push({ word, isCustomPeg: true });
       }
     }
   }
   
   // Add dictionary words
-  const dictWords = findWordsForDigits(dictionary, digits, system);
+  const dictWords = findWordsForDigits(applyResultFilters(dictionary, filters), digits, system);
   for (const word of dictWords) {
-    if (!seen.has(word.toLowerCase())) {
-      seen.add(word.toLowerCase());
+    if (!seen.has(wordKey(word))) {
+      seen.add(wordKey(word));
       results.push({ word });
     }
   }
@@ -58,85 +78,178 @@ export function getMatchesForDigits(
 
 /**
  * Build split rows with segment matches for display.
- * Filters out rows where any segment has no matches.
- * Stops adding rows once total word combinations exceeds maxCombinations.
+ * Only splits whose segments all have matches are generated, best first (see
+ * generateViableSplits). Locked ranges are kept as segments with their locked
+ * word, so only the digits around them are split. Stops adding rows once total word combinations
+ * exceeds maxCombinations.
+ * After them come up to MAX_INEXACT_ROWS inexact rows, where exactly one (long
+ * enough) segment has no matches but has words one digit off or invented words.
+ * Finding those is the slow part, so it can be left out.
  */
 export function buildSplitRows(
   digits: string,
   dictionary: Dictionary,
   system: MnemonicSystem,
   customPegs: Favorite[],
-  maxCombinations: number = 50
+  maxCombinations: number = 50,
+  filters: ResultFilters = DEFAULT_FILTERS,
+  includeInexact: boolean = true,
+  locks: WordLock[] = []
 ): SplitRow[] {
-  if (!digits) return [];
+  let rows: SplitRow[] = [];
+  for (const step of buildSplitRowsInSteps(digits, dictionary, system, customPegs, maxCombinations, filters, includeInexact, locks)) {
+    rows = step;
+  }
+  return rows;
+}
+
+/**
+ * Build split rows as buildSplitRows does, yielding the rows so far once the
+ * exact rows are done and after each candidate for an inexact row, so a
+ * caller can show partial results and stop between steps. The last value
+ * yielded is the full result.
+ */
+export function* buildSplitRowsInSteps(
+  digits: string,
+  dictionary: Dictionary,
+  system: MnemonicSystem,
+  customPegs: Favorite[],
+  maxCombinations: number = 50,
+  filters: ResultFilters = DEFAULT_FILTERS,
+  includeInexact: boolean = true,
+  locks: WordLock[] = []
+): Generator<SplitRow[]> {
+  if (!digits) {
+    yield [];
+    return;
+  }
+  const filtered = applyResultFilters(dictionary, filters);
+  const matchCache = new Map<string, SegmentMatch[]>();
+  const getMatches = (part: string) => {
+    let matches = matchCache.get(part);
+    if (!matches) {
+      matches = getMatchesForDigits(part, filtered, system, customPegs);
+      matchCache.set(part, matches);
+    }
+    return matches;
+  };
   
-  // Get all possible splits (no pre-limit, we'll filter as we go)
-  const allSplits = getDisplaySplits(digits, 100);
+  // Locked ranges are segments of their own, with only the locked word
+  const activeLocks = getActiveLocks(locks, digits);
+  const isViable = (part: string, start: number) =>
+    Boolean(findLock(activeLocks, start, part)) ||
+    (isFreeRange(activeLocks, start, part.length) && getMatches(part).length > 0);
+  const buildSegment = (part: string, start: number): Segment => {
+    const lock = findLock(activeLocks, start, part);
+    if (lock) return { digits: part, start, matches: [{ word: lock.word }], hasMore: false, isLocked: true };
+    const matches = getMatches(part);
+    return { digits: part, start, matches: matches.slice(0, 5), hasMore: matches.length > 5 }; // Top 5 for display
+  };
   
   const result: SplitRow[] = [];
   let totalCombinations = 0;
   
-  for (const split of allSplits) {
-    // Build segments for this split
-    const segments: Segment[] = [];
-    let allHaveMatches = true;
-    let minCombinationsForRow = 1;
-    
-    for (const part of split.parts) {
-      const matches = getMatchesForDigits(part, dictionary, system, customPegs);
-      
-      if (matches.length === 0) {
-        allHaveMatches = false;
-        break;
-      }
-      
-      // Track minimum combinations (product of match counts per segment)
-      minCombinationsForRow *= Math.min(matches.length, 5); // Use displayed count
-      
-      segments.push({
-        digits: part,
-        matches: matches.slice(0, 5), // Top 5 for display
-        hasMore: matches.length > 5,
-      });
-    }
+  for (const split of generateViableSplits(digits, isViable, 100)) {
+    const segments = split.parts.map((part, i) => buildSegment(part, partStart(split.parts, i)));
+    // Track minimum combinations (product of match counts per segment)
+    const minCombinationsForRow = segments.reduce((product, segment) => product * segment.matches.length, 1);
     
-    // Skip rows where any segment has no matches
-    if (!allHaveMatches) {
-      continue;
-    }
-    
-    // Check if adding this row would exceed the limit
+    // Stop once adding this row would exceed the limit
     if (totalCombinations + minCombinationsForRow > maxCombinations && result.length > 0) {
       break;
     }
-    
     totalCombinations += minCombinationsForRow;
     
-    result.push({
-      pattern: split.pattern,
-      parts: split.parts,
-      segments,
-    });
+    result.push({ pattern: split.pattern, parts: split.parts, segments });
   }
+  yield [...result];
   
-  return result;
+  if (!includeInexact) return;
+  for (const inexactRows of buildInexactRows(digits, dictionary, filtered, system, activeLocks, isViable, buildSegment)) {
+    yield [...result, ...inexactRows];
+  }
+}
+
+// Position of a split's part in the number
+function partStart(parts: string[], index: number): number {
+  return parts.slice(0, index).reduce((sum, part) => sum + part.length, 0);
 }
 
+// Rows with one segment no word matches, shortest such segment first, with
+// the best viable splits of the digits before and after it. Yields the rows
+// so far after each candidate segment, as finding its words is slow
+function* buildInexactRows(
+  digits: string,
+  dictionary: Dictionary,
+  filtered: Dictionary,
+  system: MnemonicSystem,
+  locks: WordLock[],
+  isViable: (part: string, start: number) => boolean,
+  buildSegment: (part: string, start: number) => Segment
+): Generator<SplitRow[]> {
+  const bestSplit = (start: number, end: number) => (start < end
+    ? generateViableSplits(digits.slice(start, end), (part, offset) => isViable(part, start + offset), 1)[0]?.parts
+    : []);
+  const candidates: { before: string[]; gap: string; after: string[]; weight: number }[] = [];
+  for (let start = 0; start < digits.length; start++) {
+    const before = bestSplit(0, start);
+    if (!before) continue;
+    for (let end = start + MIN_INEXACT_LENGTH; end <= digits.length; end++) {
+      const gap = digits.slice(start, end);
+      if (!isFreeRange(locks, start, gap.length)) break;
+      if (isViable(gap, start)) continue;
+      const after = bestSplit(end, digits.length);
+      if (!after) continue;
+      candidates.push({ before, gap, after, weight: splitWeight([...before, gap, ...after]) });
+    }
+  }
+  // The fewer digits left to near misses and invented words the better
+  candidates.sort((a, b) => a.gap.length - b.gap.length || a.weight - b.weight);
+
+  const rhotic = getDictionaryAccent(dictionary) === 'rhotic';
+  // Invented words must not be real ones, even ones the filters hide
+  const isKnownWord = (word: string) => findPhonemeCodesForWord(dictionary, word).length > 0;
+  const inexactCache = new Map<string, { nearMisses: NearMiss[]; invented: string[] }>();
+  const rows: SplitRow[] = [];
+  
+  for (const { before, gap, after } of candidates) {
+    if (rows.length >= MAX_INEXACT_ROWS) break;
+    let inexact = inexactCache.get(gap);
+    if (!inexact) {
+      inexact = {
+        nearMisses: findNearMisses(filtered, gap, system),
+        invented: generatePseudoWords(gap, system, { rhotic, isKnownWord }),
+      };
+      inexactCache.set(gap, inexact);
+    }
+    if (inexact.nearMisses.length > 0 || inexact.invented.length > 0) {
+      const parts = [...before, gap, ...after];
+      const segments: Segment[] = parts.map((part, i) => {
+        const start = partStart(parts, i);
+        return i === before.length ? { digits: part, start, matches: [], hasMore: false, ...inexact } : buildSegment(part, start);
+      });
+      rows.push({ pattern: parts.join('+'), parts, segments, isInexact: true });
+    }
+    yield rows;
+  }
+}
+
+// Shared defaults, as a new array would restart matching on every render
+const NO_CUSTOM_PEGS: Favorite[] = [];
+const NO_LOCKS: WordLock[] = [];
+
 /**
- * Hook to get all split rows with matches for the given digits.
+ * Hook to get all split rows with matches for the given digits, built in the
+ * matcher worker: exact rows arrive first, then the inexact ones.
  */
 export function useSegmentMatches(
   digits: string,
   system: MnemonicSystem,
   dictionary: Dictionary | null,
-  customPegs: Favorite[] = []
+  customPegs: Favorite[] = NO_CUSTOM_PEGS,
+  filters: ResultFilters = DEFAULT_FILTERS,
+  locks: WordLock[] = NO_LOCKS
 ) {
-  return useMemo(() => {
-    if (!dictionary) return [];
-    
-    const cleanDigits = digits.replace(/\D/g, '');
-    if (!cleanDigits) return [];
-    
-    return buildSplitRows(cleanDigits, dictionary, system, customPegs);
-  }, [digits, system, dictionary, customPegs]);
+  const { results, isPending } = useMatcherJob('splits', digits, system, dictionary, customPegs, filters, locks);
+  return { splitRows: results, isPending };
 }
@@ -0,0 +1,91 @@
+import { useState, useCallback } from 'react';
+import { wordKey } from '@/lib/dictionaryWords';
+
+export interface WordLists {
+  // Words never to offer, as word keys ("voyeur")
+  blocked: string[];
+  // Words to offer even when the result filters would hide them
+  allowed: string[];
+}
+
+const STORAGE_KEY = 'do-re-major-word-lists';
+
+const EMPTY_LISTS: WordLists = { blocked: [], allowed: [] };
+
+function loadWordLists(): WordLists {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as Partial<WordLists>;
+      return {
+        blocked: Array.isArray(parsed.blocked) ? parsed.blocked : [],
+        allowed: Array.isArray(parsed.allowed) ? parsed.allowed : [],
+      };
+    }
+  } catch (error) {
+    console.error('Failed to load word lists:', error);
+  }
+  return EMPTY_LISTS;
+}
+
+function saveWordLists(lists: WordLists): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(lists));
+  } catch (error) {
+    console.error('Failed to save word lists:', error);
+  }
+}
+
+/**
+ * Hook to manage the personal blocklist and allowlist, remembered on this device.
+ * A word is on at most one list: blocking a word removes it from the allowlist
+ * and vice versa.
+ */
+export function useWordLists() {
+  const [wordLists, setWordLists] = useState<WordLists>(loadWordLists);
+
+  const updateLists = useCallback((update: (prev: WordLists) => WordLists) => {
+    setWordLists(prev => {
+      const updated = update(prev);
+      saveWordLists(updated);
+      return updated;
+    });
+  }, []);
+
+  const blockWord = useCallback((word: string) => {
+    const key = wordKey(word);
+    updateLists(prev => ({
+      blocked: prev.blocked.includes(key) ? prev.blocked : [...prev.blocked, key],
+      allowed: prev.allowed.filter(w => w !== key),
+    }));
+  }, [updateLists]);
+
+  const allowWord = useCallback((word: string) => {
+    const key = wordKey(word);
+    updateLists(prev => ({
+      blocked: prev.blocked.filter(w => w !== key),
+      allowed: prev.allowed.includes(key) ? prev.allowed : [...prev.allowed, key],
+    }));
+  }, [updateLists]);
+
+  // Take a word off whichever list it is on
+  const unlistWord = useCallback((word: string) => {
+    const key = wordKey(word);
+    updateLists(prev => ({
+      blocked: prev.blocked.filter(w => w !== key),
+      allowed: prev.allowed.filter(w => w !== key),
+    }));
+  }, [updateLists]);
+
+  const replaceWordLists = useCallback((lists: WordLists) => {
+    updateLists(() => lists);
+  }, [updateLists]);
+
+  return {
+    wordLists,
+    blockWord,
+    allowWord,
+    unlistWord,
+    replaceWordLists,
+  };
+}
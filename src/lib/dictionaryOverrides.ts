@@ -0,0 +1,175 @@
+/**
+ * Curated overrides for the generated dictionary: boost or ban words, add
+ * missing ones under a phoneme code, and pin words to a position. The
+ * generator applies them after scoring; the format is shared so the app can
+ * produce override files too.
+ */
+
+import { PHONEMES } from './mnemonicSystems';
+import { wordKey } from './dictionaryWords';
+
+export type DictionaryOverride = (
+  // Add to the word's score (negative to demote it)
+  | { action: 'boost'; word: string; amount: number; code?: string }
+  // Remove the word, from one code or from every code it's listed under
+  | { action: 'ban'; word: string; code?: string }
+  // List a word the sources miss (or mis-pronounce) under a phoneme code
+  | { action: 'add'; word: string; code: string }
+  // Put the word at a 1-based position in the code's list
+  | { action: 'pin'; word: string; code: string; position: number }
+) & {
+  // Only apply to dictionaries for this locale (e.g. "en_US"); all when omitted
+  locale?: string;
+};
+
+export type OverrideAction = DictionaryOverride['action'];
+
+export interface DictionaryOverridesFile {
+  overrides: DictionaryOverride[];
+}
+
+const ACTIONS: OverrideAction[] = ['boost', 'ban', 'add', 'pin'];
+
+// Bans first and pins last, so a pin has the final say over a word's position
+export const OVERRIDE_ORDER: OverrideAction[] = ['ban', 'add', 'boost', 'pin'];
+
+/**
+ * Get the overrides that apply to a locale, in the order they are applied.
+ * Overrides with the same action keep their file order.
+ */
+export function getOverridesForLocale(overrides: DictionaryOverride[], locale: string): DictionaryOverride[] {
+  return overrides
+    .filter(o => !o.locale || o.locale === locale)
+    .sort((a, b) => OVERRIDE_ORDER.indexOf(a.action) - OVERRIDE_ORDER.indexOf(b.action));
+}
+
+function isPhonemeCode(code: unknown): code is string {
+  return typeof code === 'string' && code.length > 0
+    && code.split('').every(char => (PHONEMES as readonly string[]).includes(char));
+}
+
+/**
+ * Validate parsed overrides JSON. Throws an Error naming the first invalid entry.
+ */
+export function parseOverrides(data: unknown): DictionaryOverride[] {
+  const overrides = (data as Partial<DictionaryOverridesFile> | null)?.overrides;
+  if (!Array.isArray(overrides)) {
+    throw new Error('Overrides must be an object with an "overrides" array');
+  }
+
+  return overrides.map((entry, index) => {
+    const where = `Override ${index + 1}`;
+    if (!entry || typeof entry !== 'object') throw new Error(`${where} must be an object`);
+    if (!ACTIONS.includes(entry.action)) {
+      throw new Error(`${where} has unknown action "${entry.action}" (expected ${ACTIONS.join(', ')})`);
+    }
+    if (typeof entry.word !== 'string' || !entry.word.trim()) throw new Error(`${where} needs a "word"`);
+    if (entry.locale !== undefined && typeof entry.locale !== 'string') throw new Error(`${where} has an invalid "locale"`);
+
+    const needsCode = entry.action === 'add' || entry.action === 'pin';
+    if ((needsCode || entry.code !== undefined) && !isPhonemeCode(entry.code)) {
+      throw new Error(`${where} needs a "code" of phoneme letters (${PHONEMES.join('')})`);
+    }
+    if (entry.action === 'boost' && (typeof entry.amount !== 'number' || !Number.isFinite(entry.amount))) {
+      throw new Error(`${where} needs a numeric "amount"`);
+    }
+    if (entry.action === 'pin' && (!Number.isInteger(entry.position) || entry.position < 1)) {
+      throw new Error(`${where} needs a "position" of 1 or more`);
+    }
+    return { ...entry, word: entry.word.trim() } as DictionaryOverride;
+  });
+}
+
+/**
+ * Describe an override for logs, e.g. `pin "door" at 1 in d`.
+ */
+export function describeOverride(override: DictionaryOverride): string {
+  const scope = override.locale ? ` [${override.locale}]` : '';
+  switch (override.action) {
+    case 'boost':
+      return `boost "${override.word}" by ${override.amount}${override.code ? ` in ${override.code}` : ''}${scope}`;
+    case 'ban':
+      return `ban "${override.word}"${override.code ? ` from ${override.code}` : ''}${scope}`;
+    case 'add':
+      return `add "${override.word}" to ${override.code}${scope}`;
+    case 'pin':
+      return `pin "${override.word}" at ${override.position} in ${override.code}${scope}`;
+  }
+}
+
+/**
+ * Move a word in a code's list (as currently shown, with the overrides
+ * applied) by re-pinning the list's leading words in their new order. The
+ * pins run through the moved words and every earlier pin, so moves made
+ * before keep their places.
+ */
+export function moveWordPins(
+  overrides: DictionaryOverride[],
+  code: string,
+  words: string[],
+  index: number,
+  offset: number,
+  locale?: string
+): DictionaryOverride[] {
+  const isCodePin = (o: DictionaryOverride) => o.action === 'pin' && o.code === code && o.locale === locale;
+  const pinned = overrides.filter(isCodePin) as Extract<DictionaryOverride, { action: 'pin' }>[];
+
+  const order = [...words];
+  const [moved] = order.splice(index, 1);
+  order.splice(index + offset, 0, moved);
+  const count = Math.min(order.length, Math.max(index, index + offset, ...pinned.map(o => o.position - 1)) + 1);
+
+  const pins = order.slice(0, count).map((word, i): DictionaryOverride => ({
+    action: 'pin',
+    word: wordKey(word),
+    code,
+    position: i + 1,
+    ...(locale ? { locale } : {}),
+  }));
+  return [...overrides.filter(o => !isCodePin(o)), ...pins];
+}
+
+/**
+ * Apply overrides to already-ranked word lists, to preview them without
+ * regenerating the dictionary. Boosts need the generator's scores, so they
+ * are skipped; added words go to the end unless pinned. Lists that are not
+ * changed are shared with the input.
+ */
+export function applyOverridesToWordLists(
+  wordLists: Record<string, string[]>,
+  overrides: DictionaryOverride[],
+  locale: string
+): Record<string, string[]> {
+  const result = { ...wordLists };
+  const matches = (word: string) => (entry: string) => wordKey(entry) === wordKey(word);
+
+  for (const override of getOverridesForLocale(overrides, locale)) {
+    const isWord = matches(override.word);
+    switch (override.action) {
+      case 'ban': {
+        const codes = override.code ? [override.code] : Object.keys(result);
+        for (const code of codes) {
+          if (!result[code]?.some(isWord)) continue;
+          result[code] = result[code].filter(entry => !isWord(entry));
+          if (result[code].length === 0) delete result[code];
+        }
+        break;
+      }
+      case 'add':
+        if (!result[override.code]?.some(isWord)) {
+          result[override.code] = [...(result[override.code] ?? []), override.word];
+        }
+        break;
+      case 'pin': {
+        const index = result[override.code]?.findIndex(isWord) ?? -1;
+        if (index === -1) break;
+        const entries = [...result[override.code]];
+        const [entry] = entries.splice(index, 1);
+        entries.splice(Math.min(override.position, entries.length + 1) - 1, 0, entry);
+        result[override.code] = entries;
+        break;
+      }
+    }
+  }
+  return result;
+}
@@ -1,93 +1,396 @@
 /**
  * Dictionary service for loading and caching the phonetic dictionary.
- * Uses bridge codes as keys (e.g., "DK" = D+K consonant sounds).
+ * Uses phoneme codes as keys (e.g., "dg" = d+g consonant sounds, see PHONEMES),
+ * so the digits of a word are derived per system at load time.
  */
 
-import { MnemonicSystem } from './mnemonicSystems';
+import { BRIDGE_SOUNDS, BridgeSound, MnemonicSystem, SystemConfig, bridgeSoundInfo, getSystemConfig } from './mnemonicSystems';
+import { toRhoticPhonemeCode } from './spellingRules';
+import { DictionaryOverride, applyOverridesToWordLists } from './dictionaryOverrides';
+import { RICH_FORMAT, RichWordEntry, WordInfo, wordKey } from './dictionaryWords';
 
 export interface Dictionary {
-  [bridgeCode: string]: string[];
+  [phonemeCode: string]: string[];
 }
 
-// Bridge code to digit mappings for each system
-// Bridge codes: D=t/d, N=n, M=m, R=r, L=l, J=ch/sh/j, K=k/g, F=f/v, P=p/b, S=s/z
-const BRIDGE_TO_DIGIT: Record<MnemonicSystem, Record<string, string>> = {
-  'major': {
-    'D': '1', 'N': '2', 'M': '3', 'R': '4', 'L': '5',
-    'J': '6', 'K': '7', 'F': '8', 'P': '9', 'S': '0'
+// Marker written by the generator for phoneme-keyed dictionaries
+const PHONEME_FORMAT = 'phonemes';
+
+/**
+ * Pronunciation the dictionary is indexed by. Non-rhotic speakers drop the
+ * "r" after a vowel (door = d), rhotic speakers pronounce it (door = d r).
+ */
+export type Accent = 'non-rhotic' | 'rhotic';
+
+export const accentInfo: Record<Accent, { label: string; description: string }> = {
+  'non-rhotic': {
+    label: 'Non-rhotic',
+    description: 'British-style: the "r" in door, four and bird is silent',
+  },
+  'rhotic': {
+    label: 'Rhotic',
+    description: 'American-style: every written "r" is pronounced',
   },
-  'do-re-major': {
-    'D': '1', 'N': '0', 'M': '3', 'R': '2', 'L': '6',
-    'J': '8', 'K': '7', 'F': '4', 'P': '9', 'S': '5'
-  }
 };
 
-// Reverse mapping: digit to possible bridge codes
-const DIGIT_TO_BRIDGE: Record<MnemonicSystem, Record<string, string>> = {
-  'major': {
-    '0': 'S', '1': 'D', '2': 'N', '3': 'M', '4': 'R',
-    '5': 'L', '6': 'J', '7': 'K', '8': 'F', '9': 'P'
+export type Locale = 'en_GB' | 'en_US';
+
+export const LOCALES: Locale[] = ['en_GB', 'en_US'];
+
+// Dictionary file per accent each locale is generated for
+export const localeInfo: Record<Locale, { label: string; description: string; files: Partial<Record<Accent, string>> }> = {
+  'en_GB': {
+    label: 'UK English',
+    description: 'British spellings, from Britfone pronunciations',
+    files: { 'non-rhotic': 'dictionary-en_GB.json', 'rhotic': 'dictionary-en_GB-rhotic.json' },
+  },
+  'en_US': {
+    label: 'US English',
+    description: 'American spellings, from CMUdict pronunciations',
+    files: { 'rhotic': 'dictionary-en_US.json' },
   },
-  'do-re-major': {
-    '0': 'N', '1': 'D', '2': 'R', '3': 'M', '4': 'F',
-    '5': 'S', '6': 'L', '7': 'K', '8': 'J', '9': 'P'
-  }
 };
 
-// Cached dictionary
-let cachedDictionary: Dictionary | null = null;
-let loadPromise: Promise<Dictionary> | null = null;
+/**
+ * Locales with a dictionary in this build; a locale whose dictionary hasn't
+ * been generated yet (e.g. US English) isn't offered.
+ */
+export const AVAILABLE_LOCALES: Locale[] = LOCALES.filter(locale =>
+  Object.values(localeInfo[locale].files).some(file => __SHIPPED_DICTIONARIES__.includes(file))
+);
+
+/**
+ * Get the accents a locale has a dictionary for.
+ */
+export function getLocaleAccents(locale: Locale): Accent[] {
+  return Object.keys(localeInfo[locale].files) as Accent[];
+}
+
+/**
+ * Get the accent a locale's dictionary will use: the preferred one if the
+ * locale has it, otherwise the locale's own (e.g. US English is rhotic).
+ */
+export function resolveAccent(locale: Locale, accent: Accent): Accent {
+  const accents = getLocaleAccents(locale);
+  return accents.includes(accent) ? accent : accents[0];
+}
+
+// Cached dictionaries, per locale and accent
+const loadPromises = new Map<string, Promise<Dictionary>>();
+
+// Accent of each loaded dictionary, so spelling estimates can agree with it
+const dictionaryAccents = new WeakMap<Dictionary, Accent>();
+
+// Per-word metadata of dictionaries loaded in the rich format, keyed by dictionary word
+const dictionaryWordInfo = new WeakMap<Dictionary, Map<string, WordInfo>>();
+
+// Dictionaries converted from legacy bridge codes, which only know each sound group's first phoneme
+const legacyDictionaries = new WeakSet<Dictionary>();
 
 /**
- * Load the dictionary from the JSON file.
+ * Load the dictionary for a locale and accent from its JSON file.
  * Uses caching to avoid reloading.
  */
-export async function loadDictionary(): Promise<Dictionary> {
-  if (cachedDictionary) {
-    return cachedDictionary;
+export async function loadDictionary(locale: Locale = 'en_GB', preferredAccent: Accent = 'non-rhotic'): Promise<Dictionary> {
+  const accent = resolveAccent(locale, preferredAccent);
+  const key = `${locale}:${accent}`;
+  const cached = loadPromises.get(key);
+  if (cached) {
+    return cached;
   }
 
-  if (loadPromise) {
-    return loadPromise;
+  let loadPromise = fetchDictionary(localeInfo[locale].files[accent]!);
+  if (accent === 'rhotic' && localeInfo[locale].files['non-rhotic']) {
+    // Deployments built before the rhotic index existed only ship the non-rhotic one
+    loadPromise = loadPromise.catch(error => {
+      console.warn('Rhotic dictionary unavailable, deriving it from the non-rhotic one:', error);
+      return loadDictionary(locale, 'non-rhotic').then(deriveRhoticDictionary);
+    });
   }
 
-  const baseUrl = import.meta.env.BASE_URL;
-  loadPromise = fetch(`${baseUrl}/dictionary-en_GB.json`)
-    .then(response => {
-      if (!response.ok) {
-        throw new Error(`Failed to load dictionary: ${response.statusText}`);
-      }
-      return response.json();
-    })
-    .then((data: Dictionary) => {
-      // Remove metadata key if present
-      const { _metadata, ...dictionary } = data as Dictionary & { _metadata?: string };
-      cachedDictionary = dictionary;
-      console.log(`Dictionary loaded: ${Object.keys(dictionary).length} bridge codes`);
+  loadPromise = loadPromise
+    .then(dictionary => {
+      dictionaryAccents.set(dictionary, accent);
+      console.log(`Dictionary loaded (${locale}, ${accent}): ${Object.keys(dictionary).length} phoneme codes`);
       return dictionary;
     })
     .catch(error => {
-      loadPromise = null;
+      loadPromises.delete(key);
       throw error;
     });
 
+  loadPromises.set(key, loadPromise);
   return loadPromise;
 }
 
+async function fetchDictionary(file: string): Promise<Dictionary> {
+  const baseUrl = import.meta.env.BASE_URL;
+  const response = await fetch(`${baseUrl}/${file}`);
+  if (!response.ok) {
+    throw new Error(`Failed to load dictionary: ${response.statusText}`);
+  }
+  // Static hosts without the file may answer with the app's index.html instead
+  const data: Dictionary = await response.json().catch(() => {
+    throw new Error(`Failed to load dictionary: ${file} is not available`);
+  });
+
+  // Remove metadata keys if present
+  const { _metadata, _format, ...entries } = data as Dictionary & { _metadata?: string; _format?: string };
+  if (_format === RICH_FORMAT) return convertRichDictionary(entries as unknown as Record<string, RichWordEntry[]>);
+  return _format === PHONEME_FORMAT ? entries : convertBridgeDictionary(entries);
+}
+
+/**
+ * Convert a rich dictionary (word objects with metadata) to word lists,
+ * keeping the metadata for getWordInfo.
+ */
+export function convertRichDictionary(richDictionary: Record<string, RichWordEntry[]>): Dictionary {
+  const result: Dictionary = {};
+  const info = new Map<string, WordInfo>();
+  for (const [phonemeCode, entries] of Object.entries(richDictionary)) {
+    result[phonemeCode] = entries.map(({ word, ...wordInfo }) => {
+      info.set(word, wordInfo);
+      return word;
+    });
+  }
+  dictionaryWordInfo.set(result, info);
+  return result;
+}
+
+/**
+ * Get what the generator recorded about a dictionary word (part of speech,
+ * ratings, IPA, score). Undefined for dictionaries in the plain format and
+ * for words added locally.
+ */
+export function getWordInfo(dictionary: Dictionary, word: string): WordInfo | undefined {
+  return dictionaryWordInfo.get(dictionary)?.get(word);
+}
+
+/**
+ * Whether a dictionary carries per-word metadata (the rich format).
+ */
+export function hasWordInfo(dictionary: Dictionary): boolean {
+  return dictionaryWordInfo.has(dictionary);
+}
+
+// Dictionaries derived from another keep its accent and word metadata
+function inheritDictionaryData(derived: Dictionary, source: Dictionary): Dictionary {
+  dictionaryAccents.set(derived, getDictionaryAccent(source));
+  const info = dictionaryWordInfo.get(source);
+  if (info) dictionaryWordInfo.set(derived, info);
+  if (legacyDictionaries.has(source)) legacyDictionaries.add(derived);
+  return derived;
+}
+
+/**
+ * Whether a dictionary was converted from legacy bridge codes, so it can't
+ * tell phonemes within a sound group apart.
+ */
+export function isLegacyDictionary(dictionary: Dictionary): boolean {
+  return legacyDictionaries.has(dictionary);
+}
+
+/**
+ * Get the accent a loaded dictionary was indexed by.
+ */
+export function getDictionaryAccent(dictionary: Dictionary): Accent {
+  return dictionaryAccents.get(dictionary) ?? 'non-rhotic';
+}
+
+/**
+ * A dictionary with its accent and word metadata, which posting the
+ * dictionary object on its own (e.g. to a worker) would lose.
+ */
+export interface PortableDictionary {
+  entries: Dictionary;
+  accent: Accent;
+  wordInfo?: Map<string, WordInfo>;
+}
+
+export function toPortableDictionary(dictionary: Dictionary): PortableDictionary {
+  return { entries: dictionary, accent: getDictionaryAccent(dictionary), wordInfo: dictionaryWordInfo.get(dictionary) };
+}
+
+/**
+ * Restore a posted dictionary, with its accent and word metadata.
+ */
+export function fromPortableDictionary({ entries, accent, wordInfo }: PortableDictionary): Dictionary {
+  dictionaryAccents.set(entries, accent);
+  if (wordInfo) dictionaryWordInfo.set(entries, wordInfo);
+  return entries;
+}
+
+/**
+ * Preview curated overrides (bans, additions, pins) on a loaded dictionary,
+ * before the generator bakes them in. The result keeps the dictionary's accent
+ * and word metadata.
+ */
+export function applyDictionaryOverrides(dictionary: Dictionary, overrides: DictionaryOverride[], locale: Locale): Dictionary {
+  return inheritDictionaryData(applyOverridesToWordLists(dictionary, overrides, locale), dictionary);
+}
+
+/**
+ * Keep only the words a predicate accepts, dropping codes left empty. The
+ * result keeps the dictionary's accent and word metadata.
+ */
+export function filterDictionaryWords(dictionary: Dictionary, keep: (word: string) => boolean): Dictionary {
+  const result: Dictionary = {};
+  for (const [phonemeCode, words] of Object.entries(dictionary)) {
+    const kept = words.filter(keep);
+    if (kept.length > 0) result[phonemeCode] = kept;
+  }
+  return inheritDictionaryData(result, dictionary);
+}
+
+/**
+ * Derive a rhotic dictionary from a non-rhotic one by adding the "r" sounds
+ * that each word's spelling implies. Words moving into the same code are
+ * interleaved by rank.
+ */
+export function deriveRhoticDictionary(dictionary: Dictionary): Dictionary {
+  // Ranked word lists per rhotic code, one list per source code
+  const lists = new Map<string, string[][]>();
+  for (const [phonemeCode, words] of Object.entries(dictionary)) {
+    const bySource = new Map<string, string[]>();
+    for (const word of words) {
+      const rhoticCode = toRhoticPhonemeCode(wordKey(word), phonemeCode);
+      bySource.set(rhoticCode, [...(bySource.get(rhoticCode) ?? []), word]);
+    }
+    for (const [rhoticCode, sourceWords] of bySource) {
+      lists.set(rhoticCode, [...(lists.get(rhoticCode) ?? []), sourceWords]);
+    }
+  }
+
+  const result: Dictionary = {};
+  for (const [rhoticCode, codeLists] of lists) {
+    result[rhoticCode] = interleave(codeLists);
+  }
+  return inheritDictionaryData(result, dictionary);
+}
+
+/**
+ * Convert a dictionary keyed by legacy bridge codes (one letter per sound
+ * group, e.g. "DK") to phoneme codes, using each group's first phoneme.
+ * Such dictionaries can't tell phonemes within a group apart, so systems that
+ * give them different digits only match the group's first phoneme.
+ */
+export function convertBridgeDictionary(bridgeDictionary: Dictionary): Dictionary {
+  console.warn('Dictionary uses legacy bridge codes; regenerate it for phoneme-level systems');
+  const representative = Object.fromEntries(
+    BRIDGE_SOUNDS.map(sound => [sound, bridgeSoundInfo[sound].phonemes[0]])
+  ) as Record<BridgeSound, string>;
+
+  const result: Dictionary = {};
+  for (const [bridgeCode, words] of Object.entries(bridgeDictionary)) {
+    const phonemeCode = bridgeCode.split('').map(char => representative[char as BridgeSound] || '').join('');
+    if (phonemeCode.length === bridgeCode.length) {
+      result[phonemeCode] = words;
+    }
+  }
+  legacyDictionaries.add(result);
+  return result;
+}
+
+/**
+ * Convert a phoneme code to its digit representation for a given system.
+ */
+export function phonemeCodeToDigits(phonemeCode: string, system: MnemonicSystem): string {
+  const mapping = getPhonemeToDigitMapping(system);
+  return phonemeCode.split('').map(char => mapping[char] || '').join('');
+}
+
+export interface DigitIndexEntry {
+  phonemeCodes: string[];
+  words: string[];
+}
+
+// Digit index per dictionary and system config. Keyed on the config object so
+// that editing a user-defined system (which registers a new config) rebuilds it.
+const digitIndexCache = new WeakMap<Dictionary, WeakMap<SystemConfig, Map<string, DigitIndexEntry>>>();
+
 /**
- * Convert a bridge code to its digit representation for a given system.
+ * Get the dictionary re-keyed by digit sequence for a system.
+ * Several phoneme codes can share a digit sequence (when a system gives two
+ * phonemes the same digit); their word lists are interleaved by rank.
  */
-export function bridgeCodeToDigits(bridgeCode: string, system: MnemonicSystem): string {
-  const mapping = BRIDGE_TO_DIGIT[system];
-  return bridgeCode.split('').map(char => mapping[char] || '').join('');
+export function getDigitIndex(dictionary: Dictionary, system: MnemonicSystem): Map<string, DigitIndexEntry> {
+  const config = getSystemConfig(system);
+  let perSystem = digitIndexCache.get(dictionary);
+  if (!perSystem) {
+    perSystem = new WeakMap();
+    digitIndexCache.set(dictionary, perSystem);
+  }
+
+  const cached = perSystem.get(config);
+  if (cached) return cached;
+
+  const grouped = new Map<string, { phonemeCodes: string[]; lists: string[][] }>();
+  for (const [phonemeCode, words] of Object.entries(dictionary)) {
+    if (!words || words.length === 0) continue;
+    // Words using a phoneme the system gives no digit can't encode a number
+    const digitList = phonemeCode.split('').map(char => config.phonemeToDigit[char]);
+    if (digitList.some(digit => digit === undefined)) continue;
+    const digits = digitList.join('');
+
+    const group = grouped.get(digits);
+    if (group) {
+      group.phonemeCodes.push(phonemeCode);
+      group.lists.push(words);
+    } else {
+      grouped.set(digits, { phonemeCodes: [phonemeCode], lists: [words] });
+    }
+  }
+
+  const index = new Map<string, DigitIndexEntry>();
+  for (const [digits, group] of grouped) {
+    index.set(digits, { phonemeCodes: group.phonemeCodes, words: interleave(group.lists) });
+  }
+
+  perSystem.set(config, index);
+  return index;
+}
+
+export interface DigitCoverage {
+  length: number;
+  // Digit sequences of this length that have at least one word
+  covered: number;
+  possible: number;
 }
 
 /**
- * Convert a digit string to the corresponding bridge code for a given system.
+ * Count, for each sequence length, how many digit sequences a system can
+ * encode with a single dictionary word.
  */
-export function digitsToBridgeCode(digits: string, system: MnemonicSystem): string {
-  const mapping = DIGIT_TO_BRIDGE[system];
-  return digits.split('').map(d => mapping[d] || '').join('');
+export function getDigitCoverage(dictionary: Dictionary, system: MnemonicSystem): DigitCoverage[] {
+  const counts: number[] = [];
+  for (const digits of getDigitIndex(dictionary, system).keys()) {
+    counts[digits.length] = (counts[digits.length] ?? 0) + 1;
+  }
+
+  const coverage: DigitCoverage[] = [];
+  for (let length = 1; length < counts.length; length++) {
+    coverage.push({ length, covered: counts[length] ?? 0, possible: 10 ** length });
+  }
+  return coverage;
+}
+
+// Merge ranked lists so that the best word of each list comes first
+function interleave(lists: string[][]): string[] {
+  if (lists.length === 1) return lists[0];
+
+  const result: string[] = [];
+  const seen = new Set<string>();
+  const longest = Math.max(...lists.map(list => list.length));
+  for (let i = 0; i < longest; i++) {
+    for (const list of lists) {
+      const word = list[i];
+      if (word !== undefined && !seen.has(wordKey(word))) {
+        seen.add(wordKey(word));
+        result.push(word);
+      }
+    }
+  }
+  return result;
 }
 
 /**
@@ -98,27 +401,54 @@ export function findWordsForDigits(
   digits: string,
   system: MnemonicSystem
 ): string[] {
-  const bridgeCode = digitsToBridgeCode(digits, system);
-  return dictionary[bridgeCode] || [];
+  return getDigitIndex(dictionary, system).get(digits)?.words || [];
+}
+
+// Reverse index: lowercase word -> phoneme codes it is listed under, per dictionary
+const wordIndexCache = new WeakMap<Dictionary, Map<string, string[]>>();
+
+/**
+ * Find the phoneme codes a word is listed under (its dictionary pronunciations).
+ * Returns an empty array for words the dictionary doesn't know.
+ */
+export function findPhonemeCodesForWord(dictionary: Dictionary, word: string): string[] {
+  let index = wordIndexCache.get(dictionary);
+  if (!index) {
+    index = new Map();
+    for (const [phonemeCode, words] of Object.entries(dictionary)) {
+      for (const entry of words) {
+        const key = wordKey(entry);
+        const codes = index.get(key);
+        if (!codes) {
+          index.set(key, [phonemeCode]);
+        } else if (!codes.includes(phonemeCode)) {
+          codes.push(phonemeCode);
+        }
+      }
+    }
+    wordIndexCache.set(dictionary, index);
+  }
+  return index.get(wordKey(word)) || [];
 }
 
 /**
- * Find all bridge codes that start with a prefix matching the digits.
+ * Find all phoneme codes whose digits are a prefix of the given digits.
  */
 export function findPrefixMatches(
   dictionary: Dictionary,
   digits: string,
   system: MnemonicSystem
-): { bridgeCode: string; digits: string; words: string[] }[] {
-  const results: { bridgeCode: string; digits: string; words: string[] }[] = [];
-  const targetBridgePrefix = digitsToBridgeCode(digits, system);
-
-  for (const [bridgeCode, words] of Object.entries(dictionary)) {
-    if (bridgeCode.length > 0 && words.length > 0) {
-      // Check if this bridge code represents a prefix of our target digits
-      const codeDigits = bridgeCodeToDigits(bridgeCode, system);
-      if (digits.startsWith(codeDigits) && codeDigits.length > 0 && codeDigits.length <= digits.length) {
-        results.push({ bridgeCode, digits: codeDigits, words });
+): { phonemeCode: string; digits: string; words: string[] }[] {
+  const results: { phonemeCode: string; digits: string; words: string[] }[] = [];
+  const index = getDigitIndex(dictionary, system);
+
+  // Check every prefix of the target digits against the index
+  for (let len = 1; len <= digits.length; len++) {
+    const codeDigits = digits.slice(0, len);
+    const entry = index.get(codeDigits);
+    if (entry) {
+      for (const phonemeCode of entry.phonemeCodes) {
+        results.push({ phonemeCode, digits: codeDigits, words: dictionary[phonemeCode] });
       }
     }
   }
@@ -128,8 +458,8 @@ export function findPrefixMatches(
 }
 
 /**
- * Get the bridge code mapping for display/debugging.
+ * Get the phoneme to digit mapping for display/debugging.
  */
-export function getBridgeToDigitMapping(system: MnemonicSystem): Record<string, string> {
-  return BRIDGE_TO_DIGIT[system];
+export function getPhonemeToDigitMapping(system: MnemonicSystem): Record<string, string> {
+  return getSystemConfig(system).phonemeToDigit;
 }
@@ -0,0 +1,80 @@
+/**
+ * Helpers for words as stored in the dictionary: capitals mark the letters
+ * that spell the consonant sounds ("DooR"), and a word with several
+ * pronunciations carries a variant marker on the extra ones ("ReaD(2)"),
+ * so each variant keeps the highlighting of its own pronunciation.
+ * Highlighted spans that touch are split by a separator ("booK|Keeper").
+ */
+
+import { SPAN_SEPARATOR } from './graphemeAlignment';
+import { SensitiveCategory } from './sensitiveWords';
+
+const VARIANT_MARKER = /\((\d+)\)$/;
+
+/**
+ * Remove the variant marker and span separators: "booK|Keeper(2)" -> "booKKeeper".
+ */
+export function stripWordMarkers(word: string): string {
+  return word.replace(VARIANT_MARKER, '').split(SPAN_SEPARATOR).join('');
+}
+
+/**
+ * Get the pronunciation variant a dictionary word was listed for (1 when unmarked).
+ */
+export function getWordVariant(word: string): number {
+  const match = word.match(VARIANT_MARKER);
+  return match ? Number(match[1]) : 1;
+}
+
+/**
+ * Key for comparing words regardless of highlighting and variant: "ReaD(2)" -> "read".
+ */
+export function wordKey(word: string): string {
+  return stripWordMarkers(word).toLowerCase();
+}
+
+/**
+ * Dominant part of speech of a word, from the concreteness norms; "name" is a
+ * proper noun.
+ */
+export type PartOfSpeech = 'noun' | 'verb' | 'adjective' | 'adverb' | 'name' | 'other';
+
+/**
+ * What the generator knows about a word, kept in the rich dictionary format.
+ * Ratings are missing for words the norms don't cover.
+ */
+export interface WordInfo {
+  pos?: PartOfSpeech;
+  // Brysbaert concreteness rating, 1 (abstract) to 5 (concrete)
+  concreteness?: number;
+  // Lancaster visual strength, 0 to 5, as a measure of how easily the word is pictured
+  imageability?: number;
+  // Pronunciation the word is listed under
+  ipa?: string;
+  // Syllables in that pronunciation (estimated from the spelling when there is none)
+  syllables?: number;
+  // Generator ranking score (higher ranks first)
+  score?: number;
+  // Set for words family-safe mode hides (see sensitiveWords.ts)
+  sensitive?: SensitiveCategory;
+}
+
+// Marker for dictionaries whose codes list RichWordEntry objects instead of word strings
+export const RICH_FORMAT = 'phonemes-rich';
+
+export interface RichWordEntry extends WordInfo {
+  word: string;
+}
+
+/**
+ * Summarise a word's metadata for display, e.g. "noun · /dɔː/ · 1 syllable · concreteness 4.9".
+ */
+export function describeWordInfo(info: WordInfo): string {
+  return [
+    info.pos,
+    info.ipa && `/${info.ipa}/`,
+    info.syllables !== undefined && `${info.syllables} syllable${info.syllables === 1 ? '' : 's'}`,
+    info.concreteness !== undefined && `concreteness ${info.concreteness}`,
+    info.imageability !== undefined && `imageability ${info.imageability}`,
+  ].filter(Boolean).join(' · ');
+}
@@ -1,78 +1,102 @@
 /**
- * Utility for generating all possible ways to split a digit string.
+ * Utility for generating the ways to split a digit string into parts that
+ * each have words.
  */
 
+import { getWeight } from './dijkstraWordMatcher';
+import { PriorityQueue } from './priorityQueue';
+
 export interface DigitSplit {
   parts: string[];
   pattern: string; // e.g., "12+34" or "1234"
 }
 
+// A split in progress: its parts up to `position`
+interface SplitNode {
+  position: number;
+  weight: number;
+  // Weight plus the lightest completion from position
+  estimate: number;
+  parent: SplitNode | null;
+  // Index of the last part's length in the parent position's sorted part lengths
+  lengthIndex: number;
+  order: number;
+}
+
 /**
- * Generate all possible ways to split a digit string into contiguous parts.
- * For "1234" returns: ["1234"], ["123","4"], ["12","34"], ["1","234"], ["12","3","4"], etc.
- * Limited to reasonable split counts for performance.
+ * Quality of a split, lower is better: each part weighs as a word of its
+ * length does in the combination matcher, so fewer, mid-sized parts come first.
  */
-export function generateAllSplits(digits: string, maxParts: number = 4): DigitSplit[] {
+export function splitWeight(parts: string[]): number {
+  return parts.reduce((sum, part) => sum + getWeight(part.length), 0);
+}
+
+/**
+ * Generate the splits of a digit string whose parts all pass isViable (e.g.
+ * have words; it also gets the part's position), lightest first (see splitWeight), with no limit on the number
+ * of parts. Splits with a dead part are never generated: the lightest
+ * completion from each position is found first, so a best-first search only
+ * follows parts that lead to a full split.
+ * For "1234" with every part viable returns: "1234", "12+34", "1+234", "123+4", ...
+ */
+export function generateViableSplits(
+  digits: string,
+  isViable: (part: string, start: number) => boolean,
+  maxSplits: number = 100
+): DigitSplit[] {
   if (!digits || digits.length === 0) return [];
-  
-  const results: DigitSplit[] = [];
-  
-  // Helper to recursively generate splits
-  function generateSplitsRecursive(
-    remaining: string,
-    currentParts: string[],
-    startIndex: number
-  ) {
-    // If we've used all digits, record this split
-    if (remaining.length === 0) {
-      if (currentParts.length <= maxParts) {
-        results.push({
-          parts: [...currentParts],
-          pattern: currentParts.join('+'),
-        });
-      }
-      return;
+  const length = digits.length;
+
+  // Viable part lengths from each position, and the lightest completion from it
+  const partLengths: number[][] = Array.from({ length }, (_, start) =>
+    Array.from({ length: length - start }, (_, i) => i + 1).filter(len => isViable(digits.slice(start, start + len), start))
+  );
+  const completion = new Array<number>(length + 1).fill(Infinity);
+  completion[length] = 0;
+  for (let position = length - 1; position >= 0; position--) {
+    for (const len of partLengths[position]) {
+      completion[position] = Math.min(completion[position], getWeight(len) + completion[position + len]);
     }
-    
-    // Limit splits to maxParts
-    if (currentParts.length >= maxParts) {
-      // Must take remaining as final part
-      results.push({
-        parts: [...currentParts, remaining],
-        pattern: [...currentParts, remaining].join('+'),
-      });
-      return;
+  }
+  if (completion[0] === Infinity) return [];
+
+  // Lengths that lead to a full split, lightest full split first. A node then only
+  // queues its best next part and its parent's next-best one, so each partial split
+  // is queued once.
+  const through = (position: number, len: number) => getWeight(len) + completion[position + len];
+  const sortedLengths = partLengths.map((lengths, position) =>
+    lengths.filter(len => through(position, len) < Infinity).sort((a, b) => through(position, a) - through(position, b))
+  );
+
+  const results: DigitSplit[] = [];
+  let order = 0;
+  // Among equal weights, longer partial splits first, so ties complete depth-first
+  const queue = new PriorityQueue<SplitNode>((a, b) =>
+    a.estimate - b.estimate || b.position - a.position || a.order - b.order
+  );
+  const queuePart = (parent: SplitNode, lengthIndex: number) => {
+    const partLength = sortedLengths[parent.position]?.[lengthIndex];
+    if (partLength === undefined) return;
+    const position = parent.position + partLength;
+    const weight = parent.weight + getWeight(partLength);
+    queue.push({ position, weight, estimate: weight + completion[position], parent, lengthIndex, order: order++ });
+  };
+
+  queue.push({ position: 0, weight: 0, estimate: completion[0], parent: null, lengthIndex: 0, order: order++ });
+  while (queue.size > 0 && results.length < maxSplits) {
+    const current = queue.pop()!;
+    if (current.parent) queuePart(current.parent, current.lengthIndex + 1);
+    if (current.position < length) {
+      queuePart(current, 0);
+      continue;
     }
-    
-    // Try taking 1, 2, 3, ... digits as next part
-    for (let len = 1; len <= remaining.length; len++) {
-      const part = remaining.slice(0, len);
-      const rest = remaining.slice(len);
-      generateSplitsRecursive(rest, [...currentParts, part], startIndex + len);
+
+    const parts: string[] = [];
+    for (let node: SplitNode | null = current; node?.parent; node = node.parent) {
+      parts.unshift(digits.slice(node.parent.position, node.position));
     }
+    results.push({ parts, pattern: parts.join('+') });
   }
-  
-  generateSplitsRecursive(digits, [], 0);
-  
-  // Sort by number of parts (fewer parts first), then by pattern
-  results.sort((a, b) => {
-    if (a.parts.length !== b.parts.length) {
-      return a.parts.length - b.parts.length;
-    }
-    // For same number of parts, prefer balanced splits (similar part lengths)
-    const balanceA = Math.max(...a.parts.map(p => p.length)) - Math.min(...a.parts.map(p => p.length));
-    const balanceB = Math.max(...b.parts.map(p => p.length)) - Math.min(...b.parts.map(p => p.length));
-    return balanceA - balanceB;
-  });
-  
-  return results;
-}
 
-/**
- * Get a reasonable subset of splits for display.
- * Limits total combinations to avoid overwhelming the UI.
- */
-export function getDisplaySplits(digits: string, maxSplits: number = 15): DigitSplit[] {
-  const allSplits = generateAllSplits(digits, 4);
-  return allSplits.slice(0, maxSplits);
+  return results;
 }
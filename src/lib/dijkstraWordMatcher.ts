@@ -1,21 +1,42 @@
 /**
  * Dijkstra-based word matcher for finding optimal digit-to-word combinations.
  * Uses weighted shortest path to favor balanced mid-sized words.
+ * Combinations are found best-first with A* over the digit positions, using
+ * the exact cheapest completion from each position as the heuristic, so full
+ * combinations come out in order of weight: a provably ranked top K.
  */
 
-import { Dictionary, digitsToBridgeCode } from './dictionaryService';
+import { Dictionary, findWordsForDigits } from './dictionaryService';
 import { MnemonicSystem } from './mnemonicSystems';
+import { DEFAULT_FILTERS, ResultFilters, applyResultFilters } from './resultFilters';
+import { PriorityQueue } from './priorityQueue';
+import { WordLock, getActiveLocks, isFreeRange } from './wordLocks';
 import { Favorite } from '@/hooks/useFavorites';
 
 // Weight penalties for word lengths
 const WEIGHT_1_DIGIT = 10;  // Heavy penalty for single-digit matches
 const WEIGHT_2_DIGIT = 3;   // Light penalty for 2-digit matches
 const WEIGHT_DEFAULT = 1;   // Base weight for 3+ digit matches
+// Small penalty per rank place, so better-ranked words of the same length come first
+const WEIGHT_PER_RANK = 0.01;
 
+// Search time limit; combinations found by then are still the best ones, in order
+const DEFAULT_TIME_BUDGET_MS = 200;
+// How many nodes to expand between clock checks
+const TIME_CHECK_INTERVAL = 256;
+
+// A partial combination: the path from position 0 to `position`
 interface PathNode {
   position: number;
-  totalWeight: number;
-  words: { word: string; startPos: number; endPos: number; isCustomPeg?: boolean }[];
+  weight: number;
+  // Weight plus the cheapest completion from position: the best full weight through this node
+  estimate: number;
+  parent: PathNode | null;
+  // The match taken from the parent, and its index in the parent position's sorted matches
+  match: WordMatch | null;
+  matchIndex: number;
+  // Insertion order, to break ties deterministically
+  order: number;
 }
 
 interface WordMatch {
@@ -29,7 +50,7 @@ interface WordMatch {
 /**
  * Calculate weight based on word length (in digits covered)
  */
-function getWeight(digitLength: number): number {
+export function getWeight(digitLength: number): number {
   if (digitLength === 1) return WEIGHT_1_DIGIT;
   if (digitLength === 2) return WEIGHT_2_DIGIT;
   return WEIGHT_DEFAULT;
@@ -76,19 +97,18 @@ function buildWordMap(
     // Try all possible lengths from this position
     for (let len = 1; len <= targetDigits.length - startPos; len++) {
       const digitSlice = targetDigits.slice(startPos, startPos + len);
-      const bridgeCode = digitsToBridgeCode(digitSlice, system);
-      const words = dictionary[bridgeCode];
+      const words = findWordsForDigits(dictionary, digitSlice, system);
       
-      if (words && words.length > 0) {
+      if (words.length > 0) {
         // Take top 15 words for each bridge code to provide more variety
-        for (const word of words.slice(0, 15)) {
+        words.slice(0, 15).forEach((word, rank) => {
           matches.push({
             word,
             digits: digitSlice,
             length: len,
-            weight: getWeight(len),
+            weight: getWeight(len) + rank * WEIGHT_PER_RANK,
           });
-        }
+        });
       }
     }
   }
@@ -96,6 +116,21 @@ function buildWordMap(
   return wordMap;
 }
 
+/**
+ * Cheapest weight from each position to the end (Infinity where the rest
+ * can't be covered), by dynamic programming from the end.
+ */
+function getCompletionWeights(length: number, wordMap: Map<number, WordMatch[]>): number[] {
+  const completion = new Array<number>(length + 1).fill(Infinity);
+  completion[length] = 0;
+  for (let position = length - 1; position >= 0; position--) {
+    for (const match of wordMap.get(position)!) {
+      completion[position] = Math.min(completion[position], match.weight + completion[position + match.length]);
+    }
+  }
+  return completion;
+}
+
 export interface DijkstraResult {
   words: string[];
   digits: string;
@@ -107,81 +142,93 @@ export interface DijkstraResult {
 
 /**
  * Find optimal word combinations using Dijkstra's shortest path algorithm.
- * Returns up to maxResults combinations, aborting early once limit is reached.
+ * Returns up to maxResults combinations in order of weight, aborting early
+ * once the limit is reached or the time budget runs out (the combinations
+ * found by then are still the lightest ones).
+ * Dictionary words are limited to those the filters allow; custom pegs always count.
+ * Locked ranges keep their locked word; only the digits around them are solved.
  */
 export function findOptimalCombinations(
   targetDigits: string,
   dictionary: Dictionary,
   system: MnemonicSystem,
   customPegs: Favorite[],
-  maxResults: number = 50
+  maxResults: number = 50,
+  filters: ResultFilters = DEFAULT_FILTERS,
+  timeBudgetMs: number = DEFAULT_TIME_BUDGET_MS,
+  locks: WordLock[] = []
 ): DijkstraResult[] {
   if (!targetDigits || targetDigits.length === 0) return [];
   
-  const wordMap = buildWordMap(targetDigits, dictionary, system, customPegs);
+  const length = targetDigits.length;
+  const wordMap = buildWordMap(targetDigits, applyResultFilters(dictionary, filters), system, customPegs);
+  // A locked range only takes its word, and no other word may overlap it
+  const activeLocks = getActiveLocks(locks, targetDigits);
+  for (const [position, matches] of wordMap) {
+    const lock = activeLocks.find(lock => lock.start === position);
+    wordMap.set(position, lock
+      ? [{ word: lock.word, digits: lock.digits, length: lock.digits.length, weight: getWeight(lock.digits.length) }]
+      : matches.filter(match => isFreeRange(activeLocks, position, match.length)));
+  }
+  const completion = getCompletionWeights(length, wordMap);
+  if (completion[0] === Infinity) return [];
+
+  // Matches that can lead to a full combination, best full weight first. A node
+  // then only needs to queue its best extension and its next-best sibling, and
+  // every partial combination is queued exactly once.
+  const sortedMatches = new Map<number, WordMatch[]>();
+  for (const [position, matches] of wordMap) {
+    const through = (match: WordMatch) => match.weight + completion[position + match.length];
+    sortedMatches.set(position, matches.filter(match => through(match) < Infinity).sort((a, b) => through(a) - through(b)));
+  }
+
   const results: DijkstraResult[] = [];
   const seen = new Set<string>();
+  let order = 0;
+
+  // Lightest estimate first; among equals, the longest path, so ties complete depth-first
+  const queue = new PriorityQueue<PathNode>((a, b) =>
+    a.estimate - b.estimate || b.position - a.position || a.order - b.order
+  );
+  const queueMatch = (parent: PathNode, matchIndex: number) => {
+    const match = sortedMatches.get(parent.position)?.[matchIndex];
+    if (!match) return;
+    const position = parent.position + match.length;
+    const weight = parent.weight + match.weight;
+    queue.push({ position, weight, estimate: weight + completion[position], parent, match, matchIndex, order: order++ });
+  };
+
+  queue.push({ position: 0, weight: 0, estimate: completion[0], parent: null, match: null, matchIndex: 0, order: order++ });
+  const deadline = performance.now() + timeBudgetMs;
+  let expanded = 0;
   
-  // Priority queue: [position, totalWeight, path]
-  // Using array and sorting (simple implementation)
-  const queue: PathNode[] = [{ position: 0, totalWeight: 0, words: [] }];
-  
-  // Track best weight to reach each position (for pruning)
-  const bestWeightToPosition = new Map<number, number>();
-  bestWeightToPosition.set(0, 0);
-  
-  while (queue.length > 0 && results.length < maxResults) {
-    // Sort by weight and extract minimum
-    queue.sort((a, b) => a.totalWeight - b.totalWeight);
-    const current = queue.shift()!;
+  while (queue.size > 0 && results.length < maxResults) {
+    if (++expanded % TIME_CHECK_INTERVAL === 0 && performance.now() > deadline) break;
+    const current = queue.pop()!;
+    if (current.parent) queueMatch(current.parent, current.matchIndex + 1);
     
-    // If we've reached the end, record this result
-    if (current.position === targetDigits.length) {
-      const wordList = current.words.map(w => w.word);
-      const key = wordList.join('+');
-      
-      if (!seen.has(key)) {
-        seen.add(key);
-        const hasCustomPeg = current.words.some(w => w.isCustomPeg);
-        results.push({
-          words: wordList,
-          digits: targetDigits,
-          digitsCovered: Array.from({ length: targetDigits.length }, (_, i) => i),
-          isFullMatch: true,
-          totalWeight: current.totalWeight,
-          isCustomPeg: hasCustomPeg,
-        });
-      }
+    if (current.position < length) {
+      queueMatch(current, 0);
       continue;
     }
+
+    // A full combination: no lighter one is left in the queue
+    const matches: WordMatch[] = [];
+    for (let node: PathNode | null = current; node?.match; node = node.parent) {
+      matches.unshift(node.match);
+    }
+    const wordList = matches.map(match => match.word);
+    const key = wordList.join('+');
     
-    // Get all possible next words from current position
-    const possibleWords = wordMap.get(current.position) || [];
-    
-    for (const match of possibleWords) {
-      const newPosition = current.position + match.length;
-      const newWeight = current.totalWeight + match.weight;
-      
-      // Pruning: skip if we've found a better path to this position
-      const bestWeight = bestWeightToPosition.get(newPosition);
-      // Allow slightly worse paths to find diverse results
-      if (bestWeight !== undefined && newWeight > bestWeight + 5) {
-        continue;
-      }
-      
-      if (bestWeight === undefined || newWeight < bestWeight) {
-        bestWeightToPosition.set(newPosition, newWeight);
-      }
-      
-      queue.push({
-        position: newPosition,
-        totalWeight: newWeight,
-        words: [...current.words, {
-          word: match.word,
-          startPos: current.position,
-          endPos: newPosition,
-          isCustomPeg: match.isCustomPeg,
-        }],
+    if (!seen.has(key)) {
+      seen.add(key);
+      results.push({
+        words: wordList,
+        digits: targetDigits,
+        digitsCovered: Array.from({ length }, (_, i) => i),
+        isFullMatch: true,
+        totalWeight: current.weight,
+        isCustomPeg: matches.some(match => match.isCustomPeg),
       });
     }
   }
@@ -198,8 +245,10 @@ export function findPartialMatches(
   dictionary: Dictionary,
   system: MnemonicSystem,
   customPegs: Favorite[],
-  maxResults: number = 10
+  maxResults: number = 10,
+  filters: ResultFilters = DEFAULT_FILTERS
 ): DijkstraResult[] {
+  const filtered = applyResultFilters(dictionary, filters);
   const results: DijkstraResult[] = [];
   const seen = new Set<string>();
   
@@ -226,10 +275,9 @@ export function findPartialMatches(
     if (results.length >= maxResults) break;
     
     const digitSlice = targetDigits.slice(0, len);
-    const bridgeCode = digitsToBridgeCode(digitSlice, system);
-    const words = dictionary[bridgeCode];
+    const words = findWordsForDigits(filtered, digitSlice, system);
     
-    if (words && words.length > 0) {
+    if (words.length > 0) {
       for (const word of words.slice(0, 3)) {
         const key = `partial:${word}`;
         if (!seen.has(key)) {
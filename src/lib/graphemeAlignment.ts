@@ -0,0 +1,169 @@
+/**
+ * Grapheme-phoneme alignment: find the exact letters that spell each
+ * consonant sound of a word's phoneme code, so highlighting marks "mb" in
+ * "lamb" as one m and leaves silent letters alone. Used by the dictionary
+ * generator to highlight words and to validate the highlighting.
+ */
+
+import { Phoneme } from './mnemonicSystems';
+
+export interface LetterSpan {
+  // Letter span [start, end) in the word
+  start: number;
+  end: number;
+}
+
+// Letter groups that can spell each phoneme, most specific first
+const GRAPHEMES: Record<Phoneme, string[]> = {
+  't': ['tt', 'th', 'pt', 't', 'd'],
+  'd': ['dd', 'd'],
+  'T': ['th'],
+  'H': ['th'],
+  'n': ['nn', 'kn', 'gn', 'pn', 'n'],
+  'G': ['ng', 'n'],
+  'm': ['mm', 'mb', 'm'],
+  'r': ['rr', 'wr', 'rh', 'r'],
+  'l': ['ll', 'l'],
+  'j': ['dg', 'dj', 'gg', 'j', 'g', 'd'],
+  'c': ['tch', 'ch', 'cz', 't', 'c'],
+  'x': ['sch', 'ssi', 'sh', 'ch', 'ti', 'ci', 'si', 'ss', 's', 'c', 't'],
+  'Z': ['si', 's', 'g', 'z', 'j'],
+  'k': ['cch', 'ck', 'cc', 'ch', 'kk', 'qu', 'k', 'c', 'q', 'x'],
+  'g': ['gg', 'gh', 'gu', 'g', 'x'],
+  'f': ['ff', 'ph', 'gh', 'f'],
+  'v': ['vv', 'v', 'f', 'ph'],
+  'p': ['pp', 'p'],
+  'b': ['bb', 'b'],
+  's': ['ss', 'sc', 'ps', 'st', 's', 'c', 'z', 'x'],
+  'z': ['zz', 'ss', 'z', 's', 'x'],
+};
+
+// Letters that are often silent or only spell vowels; skipping them is free
+const FREE_LETTERS = 'aeiouyhw';
+
+// One letter spelling two sounds: the x in "box" (k s) and "exam" (g z)
+const SHARED_SPANS: Record<string, [Phoneme, Phoneme]> = {
+  'x': ['k', 's'],
+};
+const SHARED_VOICED: [Phoneme, Phoneme] = ['g', 'z'];
+
+function skipCost(letters: string, from: number, to: number): number {
+  let cost = 0;
+  for (let i = from; i < to; i++) {
+    const char = letters[i];
+    // Silent consonant letters are allowed (knight, lamb) but cost, so spans prefer real spellings
+    if (char >= 'a' && char <= 'z' && !FREE_LETTERS.includes(char)) cost += 1;
+  }
+  return cost;
+}
+
+/**
+ * Align a phoneme code to the letters of a word. Returns one letter span per
+ * phoneme, in order and without overlaps (except that one "x" may spell two
+ * sounds), or null when the letters can't spell the code.
+ */
+export function alignPhonemes(word: string, phonemeCode: string): LetterSpan[] | null {
+  const letters = word.toLowerCase();
+  const phonemes = phonemeCode.split('') as Phoneme[];
+  const n = phonemes.length;
+  const length = letters.length;
+
+  // best[i][p]: cheapest alignment of the first i phonemes whose last span ends at letter p
+  const best: number[][] = Array.from({ length: n + 1 }, () => new Array(length + 1).fill(Infinity));
+  const back: ({ from: number; spans: LetterSpan[] } | null)[][] =
+    Array.from({ length: n + 1 }, () => new Array(length + 1).fill(null));
+  best[0][0] = 0;
+
+  for (let i = 0; i < n; i++) {
+    for (let p = 0; p <= length; p++) {
+      if (best[i][p] === Infinity) continue;
+      for (let start = p; start < length; start++) {
+        const skipped = best[i][p] + skipCost(letters, p, start);
+
+        const graphemes = GRAPHEMES[phonemes[i]] ?? [];
+        graphemes.forEach((grapheme, rank) => {
+          if (!letters.startsWith(grapheme, start)) return;
+          const end = start + grapheme.length;
+          // Prefer the more specific spellings listed first
+          const cost = skipped + rank * 0.01;
+          if (cost < best[i + 1][end]) {
+            best[i + 1][end] = cost;
+            back[i + 1][end] = { from: p, spans: [{ start, end }] };
+          }
+        });
+
+        const pair = SHARED_SPANS[letters[start]];
+        const next = phonemes[i + 1];
+        const sharesSpan = pair && i + 1 < n && (
+          (phonemes[i] === pair[0] && next === pair[1]) ||
+          (phonemes[i] === SHARED_VOICED[0] && next === SHARED_VOICED[1])
+        );
+        if (sharesSpan) {
+          const span = { start, end: start + 1 };
+          if (skipped < best[i + 2][span.end]) {
+            best[i + 2][span.end] = skipped;
+            back[i + 2][span.end] = { from: p, spans: [span, span] };
+          }
+        }
+      }
+    }
+  }
+
+  // Letters after the last span are silent too
+  let end = -1;
+  let total = Infinity;
+  for (let p = 0; p <= length; p++) {
+    const cost = best[n][p] + skipCost(letters, p, length);
+    if (cost < total) {
+      total = cost;
+      end = p;
+    }
+  }
+  if (end === -1) return null;
+
+  const spans: LetterSpan[] = [];
+  for (let i = n, p = end; i > 0;) {
+    const step = back[i][p]!;
+    spans.unshift(...step.spans);
+    i -= step.spans.length;
+    p = step.from;
+  }
+  return spans;
+}
+
+// Marks the boundary between two highlighted spans that touch ("booKKeeper" is "booK|Keeper")
+export const SPAN_SEPARATOR = '|';
+
+/**
+ * Render a word with its aligned letters in capitals, separating touching
+ * spans with SPAN_SEPARATOR. A span shared by two sounds is written once.
+ */
+export function renderHighlight(word: string, spans: LetterSpan[]): string {
+  const letters = word.toLowerCase();
+  const distinct = spans.filter((span, i) => i === 0 || span.start !== spans[i - 1].start);
+
+  let result = '';
+  let position = 0;
+  distinct.forEach((span, index) => {
+    result += letters.slice(position, span.start);
+    if (index > 0 && span.start === position) result += SPAN_SEPARATOR;
+    result += letters.slice(span.start, span.end).toUpperCase();
+    position = span.end;
+  });
+  return result + letters.slice(position);
+}
+
+/**
+ * Count the highlighted spans in a rendered word: runs of capitals, split by
+ * lowercase letters or SPAN_SEPARATOR.
+ */
+export function countHighlightedSpans(highlighted: string): number {
+  let count = 0;
+  let inSpan = false;
+  for (const char of highlighted) {
+    const isUpper = char !== char.toLowerCase();
+    if (isUpper && !inSpan) count++;
+    inSpan = isUpper;
+  }
+  return count;
+}
@@ -0,0 +1,102 @@
+/**
+ * Long-number mode: turns hundreds of digits (pi, e, a card deck) into one
+ * complete word sequence to read as a story. Rows of alternative splits
+ * make no sense at that length, so a dynamic program picks the lightest
+ * sequence instead, with the same word weights as the combination matcher;
+ * each word's digits form a chunk of the story. Locked words stay as chunks
+ * of their own, and the story is built around them.
+ */
+
+import { Dictionary, findWordsForDigits } from './dictionaryService';
+import { MnemonicSystem } from './mnemonicSystems';
+import { DEFAULT_FILTERS, ResultFilters, applyResultFilters } from './resultFilters';
+import { getWeight } from './dijkstraWordMatcher';
+import { WordLock, getActiveLocks, isFreeRange } from './wordLocks';
+import { Favorite } from '@/hooks/useFavorites';
+
+// Numbers longer than this are shown as a story instead of split rows
+export const LONG_NUMBER_MIN_DIGITS = 17;
+
+// Longest digit sequence tried as one word
+const MAX_WORD_DIGITS = 12;
+// Words offered per chunk, the chosen one included
+const MAX_CHUNK_WORDS = 6;
+// A digit no word covers is kept as it is, at a cost that makes it a last resort
+const UNCOVERED_WEIGHT = 100;
+
+export interface StoryChunk {
+  // Position of the chunk's first digit in the number
+  start: number;
+  digits: string;
+  // Best word first, then alternatives; empty when no word covers the digit
+  words: string[];
+  // Words that are the user's custom pegs
+  customPegs: string[];
+  // The user locked this chunk's word, its only word
+  isLocked?: boolean;
+}
+
+/**
+ * Segment a long number into story chunks, one word each, covering every digit.
+ * Runs in time linear in the number's length.
+ * Dictionary words are limited to those the filters allow; custom pegs always count.
+ */
+export function buildLongNumberStory(
+  digits: string,
+  dictionary: Dictionary,
+  system: MnemonicSystem,
+  customPegs: Favorite[],
+  filters: ResultFilters = DEFAULT_FILTERS,
+  locks: WordLock[] = []
+): StoryChunk[] {
+  const filtered = applyResultFilters(dictionary, filters);
+  const activeLocks = getActiveLocks(locks, digits);
+  const lockAt = new Map(activeLocks.map(lock => [lock.start, lock]));
+  const pegWords = new Map<string, string[]>();
+  for (const peg of customPegs) {
+    if (peg.words.length === 1) pegWords.set(peg.digits, [...(pegWords.get(peg.digits) ?? []), peg.words[0]]);
+  }
+
+  // Weight of the lightest cover of digits from each position, and the chunk length it starts with
+  const length = digits.length;
+  const best = new Array<number>(length + 1).fill(Infinity);
+  const chunkLength = new Array<number>(length).fill(1);
+  best[length] = 0;
+  for (let start = length - 1; start >= 0; start--) {
+    const lock = lockAt.get(start);
+    if (lock) {
+      best[start] = getWeight(lock.digits.length) + best[start + lock.digits.length];
+      chunkLength[start] = lock.digits.length;
+      continue;
+    }
+    // Digits inside a locked range can only be reached through its lock
+    if (!isFreeRange(activeLocks, start, 1)) continue;
+    best[start] = UNCOVERED_WEIGHT + best[start + 1];
+    for (let len = 1; len <= Math.min(MAX_WORD_DIGITS, length - start); len++) {
+      if (!isFreeRange(activeLocks, start, len)) break;
+      const slice = digits.slice(start, start + len);
+      const hasPeg = pegWords.has(slice);
+      if (!hasPeg && findWordsForDigits(filtered, slice, system).length === 0) continue;
+      // Custom pegs get the same slight priority as in the combination matcher
+      const weight = getWeight(len) - (hasPeg ? 0.5 : 0) + best[start + len];
+      if (weight < best[start]) {
+        best[start] = weight;
+        chunkLength[start] = len;
+      }
+    }
+  }
+
+  const chunks: StoryChunk[] = [];
+  for (let start = 0; start < length; start += chunkLength[start]) {
+    const chunkDigits = digits.slice(start, start + chunkLength[start]);
+    const lock = lockAt.get(start);
+    if (lock) {
+      chunks.push({ start, digits: chunkDigits, words: [lock.word], customPegs: [], isLocked: true });
+      continue;
+    }
+    const pegs = pegWords.get(chunkDigits) ?? [];
+    const words = [...new Set([...pegs, ...findWordsForDigits(filtered, chunkDigits, system)])];
+    chunks.push({ start, digits: chunkDigits, words: words.slice(0, MAX_CHUNK_WORDS), customPegs: pegs });
+  }
+  return chunks;
+}
@@ -0,0 +1,141 @@
+/**
+ * Check a home-made mnemonic against the number it should encode: decode the
+ * phrase, align its digits with the target, and point at the words that
+ * produce wrong, missing or extra digits. Words whose digits are uncertain
+ * (guessed from spelling, spelled unlike they sound, or with several
+ * pronunciations) are flagged as risky even when they match.
+ */
+
+import { Dictionary, getDictionaryAccent } from './dictionaryService';
+import { MnemonicSystem, getSystemConfig } from './mnemonicSystems';
+import { DecodedWord, decodePhrase } from './phraseDecoder';
+import { spellingToPhonemeCode } from './spellingRules';
+
+export type DigitDiff =
+  | { kind: 'match'; digit: string; wordIndex: number }
+  // The phrase has a different digit at this position
+  | { kind: 'wrong'; expected: string; actual: string; wordIndex: number }
+  // A target digit the phrase doesn't produce
+  | { kind: 'missing'; expected: string }
+  // A digit the phrase produces that the target doesn't have
+  | { kind: 'extra'; actual: string; wordIndex: number };
+
+export type WordRisk = 'guessed' | 'spelling-differs' | 'ambiguous';
+
+export const wordRiskInfo: Record<WordRisk, { label: string; description: string }> = {
+  'guessed': {
+    label: 'Guessed',
+    description: 'Not in the dictionary, so its digits are guessed from the spelling',
+  },
+  'spelling-differs': {
+    label: 'Sounds unlike it looks',
+    description: 'Its spelling suggests different digits from its pronunciation',
+  },
+  'ambiguous': {
+    label: 'Several pronunciations',
+    description: 'Some pronunciations of it give different digits',
+  },
+};
+
+export interface CheckedWord {
+  decoded: DecodedWord;
+  // Whether all of this word's digits line up with the target
+  isCorrect: boolean;
+  risks: WordRisk[];
+}
+
+export interface MnemonicCheck {
+  words: CheckedWord[];
+  digits: string;
+  diff: DigitDiff[];
+  isMatch: boolean;
+}
+
+/**
+ * Check a phrase against the target digits under a system.
+ */
+export function checkMnemonic(
+  phrase: string,
+  targetDigits: string,
+  system: MnemonicSystem,
+  dictionary?: Dictionary | null
+): MnemonicCheck {
+  const decoded = decodePhrase(phrase, system, dictionary);
+
+  // The word each produced digit comes from
+  const digitWords: number[] = [];
+  decoded.words.forEach((word, index) => {
+    for (let i = 0; i < word.digits.length; i++) digitWords.push(index);
+  });
+
+  const diff = alignDigits(targetDigits, decoded.digits, digitWords);
+  const wrongWords = new Set(diff.flatMap(d => (d.kind === 'wrong' || d.kind === 'extra' ? [d.wordIndex] : [])));
+  // A missing digit is blamed on the word that should have produced it: the next one, or the last
+  diff.forEach((d, i) => {
+    if (d.kind !== 'missing') return;
+    const next = diff.slice(i + 1).find(later => later.kind !== 'missing');
+    const wordIndex = next && 'wordIndex' in next ? next.wordIndex : decoded.words.length - 1;
+    if (wordIndex >= 0) wrongWords.add(wordIndex);
+  });
+
+  const rhotic = dictionary ? getDictionaryAccent(dictionary) === 'rhotic' : false;
+  const { phonemeToDigit } = getSystemConfig(system);
+  const words = decoded.words.map((word, index) => {
+    const risks: WordRisk[] = [];
+    if (word.source === 'spelling') {
+      risks.push('guessed');
+    } else {
+      const spelled = spellingToPhonemeCode(word.word, { rhotic });
+      const spelledDigits = spelled.split('').map(char => phonemeToDigit[char] ?? '').join('');
+      if (spelledDigits !== word.digits) risks.push('spelling-differs');
+      if (word.alternativeDigits.length > 0) risks.push('ambiguous');
+    }
+    return { decoded: word, isCorrect: !wrongWords.has(index), risks };
+  });
+
+  return {
+    words,
+    digits: decoded.digits,
+    diff,
+    isMatch: decoded.digits === targetDigits && decoded.digits.length > 0,
+  };
+}
+
+/**
+ * Align the produced digits with the target by edit distance, preferring
+ * matches, so one wrong word doesn't make everything after it look wrong.
+ */
+export function alignDigits(target: string, actual: string, digitWords: number[]): DigitDiff[] {
+  const rows = target.length + 1;
+  const cols = actual.length + 1;
+  // cost[i][j]: edits to turn target[0, i) into actual[0, j)
+  const cost: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const substitution = cost[i - 1][j - 1] + (target[i - 1] === actual[j - 1] ? 0 : 1);
+      cost[i][j] = Math.min(substitution, cost[i - 1][j] + 1, cost[i][j - 1] + 1);
+    }
+  }
+
+  const diff: DigitDiff[] = [];
+  let i = target.length;
+  let j = actual.length;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && cost[i][j] === cost[i - 1][j - 1] + (target[i - 1] === actual[j - 1] ? 0 : 1)) {
+      diff.push(target[i - 1] === actual[j - 1]
+        ? { kind: 'match', digit: actual[j - 1], wordIndex: digitWords[j - 1] }
+        : { kind: 'wrong', expected: target[i - 1], actual: actual[j - 1], wordIndex: digitWords[j - 1] });
+      i--;
+      j--;
+    } else if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      diff.push({ kind: 'missing', expected: target[i - 1] });
+      i--;
+    } else {
+      diff.push({ kind: 'extra', actual: actual[j - 1], wordIndex: digitWords[j - 1] });
+      j--;
+    }
+  }
+  return diff.reverse();
+}
@@ -1,69 +1,208 @@
 // Mnemonic system configurations
 
-export type MnemonicSystem = 'do-re-major' | 'major';
+export type BuiltInSystem = 'do-re-major' | 'major';
+
+// Built-in system id, or the id of a user-defined system (see useCustomSystems)
+export type MnemonicSystem = BuiltInSystem | (string & {});
+
+// The consonant phonemes the dictionary is keyed by. Each has a one-character
+// code so a word's consonants form a compact "phoneme code" (e.g. "drm" for
+// "dream"). Lowercase letters stand for themselves; the rest use uppercase
+// letters that never appear in the legacy bridge codes below.
+export const PHONEMES = [
+  't', 'd', 'T', 'H', 'n', 'G', 'm', 'r', 'l',
+  'j', 'c', 'x', 'Z', 'k', 'g', 'f', 'v', 'p', 'b', 's', 'z',
+] as const;
+
+export type Phoneme = typeof PHONEMES[number];
+
+export interface PhonemeInfo {
+  // IPA symbols for this phoneme (as used by pronunciation sources)
+  ipa: string[];
+  // ARPAbet symbols for this phoneme (as used by CMUdict), without stress digits
+  arpabet: string[];
+  label: string;
+  example: string;
+  // Typical spellings, for display
+  spellings: string[];
+}
+
+// This table is the single source of truth for sounds: the dictionary generator
+// maps IPA and ARPAbet to phoneme codes with `ipa` and `arpabet`, and the
+// mapping chart shows `spellings`.
+export const phonemeInfo: Record<Phoneme, PhonemeInfo> = {
+  't': { ipa: ['t'], arpabet: ['T'], label: 't', example: 'tea', spellings: ['t'] },
+  'd': { ipa: ['d'], arpabet: ['D'], label: 'd', example: 'day', spellings: ['d'] },
+  'T': { ipa: ['θ'], arpabet: ['TH'], label: 'th (thin)', example: 'thin', spellings: ['th'] },
+  'H': { ipa: ['ð'], arpabet: ['DH'], label: 'th (this)', example: 'this', spellings: ['th'] },
+  'n': { ipa: ['n'], arpabet: ['N'], label: 'n', example: 'no', spellings: ['n', 'kn'] },
+  'G': { ipa: ['ŋ'], arpabet: ['NG'], label: 'ng', example: 'sing', spellings: ['ng'] },
+  'm': { ipa: ['m'], arpabet: ['M'], label: 'm', example: 'me', spellings: ['m', 'mb'] },
+  // CMUdict writes the r-coloured vowel of bird and butter as ER, which a rhotic speaker sounds as r
+  'r': { ipa: ['ɹ', 'r'], arpabet: ['R', 'ER'], label: 'r', example: 'red', spellings: ['r', 'wr'] },
+  'l': { ipa: ['l'], arpabet: ['L'], label: 'l', example: 'low', spellings: ['l'] },
+  'j': { ipa: ['dʒ'], arpabet: ['JH'], label: 'j', example: 'jam', spellings: ['j', 'soft g'] },
+  'c': { ipa: ['tʃ'], arpabet: ['CH'], label: 'ch', example: 'chip', spellings: ['ch', 'tch'] },
+  'x': { ipa: ['ʃ'], arpabet: ['SH'], label: 'sh', example: 'ship', spellings: ['sh'] },
+  'Z': { ipa: ['ʒ'], arpabet: ['ZH'], label: 'zh', example: 'vision', spellings: ['si (vision)'] },
+  'k': { ipa: ['k'], arpabet: ['K'], label: 'k', example: 'key', spellings: ['k', 'hard c', 'q', 'ck', 'x'] },
+  'g': { ipa: ['ɡ', 'g'], arpabet: ['G'], label: 'hard g', example: 'go', spellings: ['hard g'] },
+  'f': { ipa: ['f'], arpabet: ['F'], label: 'f', example: 'fan', spellings: ['f', 'ph'] },
+  'v': { ipa: ['v'], arpabet: ['V'], label: 'v', example: 'van', spellings: ['v'] },
+  'p': { ipa: ['p'], arpabet: ['P'], label: 'p', example: 'pie', spellings: ['p'] },
+  'b': { ipa: ['b'], arpabet: ['B'], label: 'b', example: 'bee', spellings: ['b'] },
+  's': { ipa: ['s'], arpabet: ['S'], label: 's', example: 'sun', spellings: ['s', 'soft c'] },
+  'z': { ipa: ['z'], arpabet: ['Z'], label: 'z', example: 'zoo', spellings: ['z'] },
+};
+
+// The classic groupings of phonemes that share a digit in most Major-style
+// systems. Older dictionaries were keyed by one letter per group (their
+// "bridge codes"), which only distinguish groups, not phonemes within them.
+export const BRIDGE_SOUNDS = ['D', 'N', 'M', 'R', 'L', 'J', 'K', 'F', 'P', 'S'] as const;
+
+export type BridgeSound = typeof BRIDGE_SOUNDS[number];
+
+export interface BridgeSoundInfo {
+  label: string;
+  // Phonemes in this group; the first stands in for the group in legacy dictionaries
+  phonemes: Phoneme[];
+}
+
+export const bridgeSoundInfo: Record<BridgeSound, BridgeSoundInfo> = {
+  'D': { label: 't, d, th', phonemes: ['t', 'd', 'T', 'H'] },
+  'N': { label: 'n, ng', phonemes: ['n', 'G'] },
+  'M': { label: 'm', phonemes: ['m'] },
+  'R': { label: 'r', phonemes: ['r'] },
+  'L': { label: 'l', phonemes: ['l'] },
+  'J': { label: 'j, ch, sh', phonemes: ['j', 'c', 'x', 'Z'] },
+  'K': { label: 'k, hard c/g', phonemes: ['k', 'g'] },
+  'F': { label: 'f, v', phonemes: ['f', 'v'] },
+  'P': { label: 'p, b', phonemes: ['p', 'b'] },
+  'S': { label: 's, z', phonemes: ['s', 'z'] },
+};
+
+export type PhonemeDigits = Partial<Record<Phoneme, string>>;
 
 export interface SystemConfig {
   name: string;
   description: string;
+  // Digit for each phoneme; words using a phoneme with no digit are not matched
+  phonemeToDigit: PhonemeDigits;
+  // Spellings per digit for display, derived from phonemeToDigit
   mappings: Record<string, string[]>;
-  consonantToDigit: Record<string, string>;
+  isCustom?: boolean;
 }
 
-// Do-Re-Major system (custom variant)
-// 1=d/t/th, 2=r, 3=m, 4=f/ph, 5=s/z, 6=l, 7=k/g/c/q/ck, 8=ch/j, 9=p/b, 0=n
-const doReMajorMappings: Record<string, string[]> = {
-  '0': ['n'],
-  '1': ['d', 't', 'th'],
-  '2': ['r'],
-  '3': ['m'],
-  '4': ['f', 'ph', 'v'],
-  '5': ['s', 'z', 'ss', 'c', 'sc'],
-  '6': ['l'],
-  '7': ['k', 'g', 'c', 'q', 'ck', 'ch', 'x'],
-  '8': ['ch', 'j', 'sh', 'ge', 'dg'],
-  '9': ['p', 'b'],
-};
+// Stored form of a user-defined system
+export interface CustomSystemDefinition {
+  id: string;
+  name: string;
+  description: string;
+  phonemeToDigit: PhonemeDigits;
+}
 
-// Standard Major mnemonic system
-// 0=s/z, 1=t/d/th, 2=n, 3=m, 4=r, 5=l, 6=j/ch/sh, 7=k/g/c/q, 8=f/v/ph, 9=p/b
-const majorMappings: Record<string, string[]> = {
-  '0': ['s', 'z', 'ss', 'c', 'sc'],
-  '1': ['t', 'd', 'th'],
-  '2': ['n'],
-  '3': ['m'],
-  '4': ['r'],
-  '5': ['l'],
-  '6': ['j', 'ch', 'sh', 'ge', 'dg'],
-  '7': ['k', 'g', 'c', 'q', 'ck', 'x'],
-  '8': ['f', 'v', 'ph'],
-  '9': ['p', 'b'],
-};
+/**
+ * Give every phoneme in each group the group's digit.
+ */
+export function expandBridgeDigits(bridgeToDigit: Partial<Record<BridgeSound, string>>): PhonemeDigits {
+  const result: PhonemeDigits = {};
+  for (const sound of BRIDGE_SOUNDS) {
+    const digit = bridgeToDigit[sound];
+    if (digit === undefined) continue;
+    for (const phoneme of bridgeSoundInfo[sound].phonemes) {
+      result[phoneme] = digit;
+    }
+  }
+  return result;
+}
 
-function buildConsonantToDigitMap(mappings: Record<string, string[]>): Record<string, string> {
-  const result: Record<string, string> = {};
-  for (const [digit, consonants] of Object.entries(mappings)) {
-    for (const consonant of consonants) {
-      result[consonant.toLowerCase()] = digit;
+// Build the display spellings per digit from a system's phoneme assignments
+function buildMappings(phonemeToDigit: PhonemeDigits): Record<string, string[]> {
+  const result: Record<string, string[]> = {};
+  for (let d = 0; d <= 9; d++) {
+    result[String(d)] = [];
+  }
+  for (const phoneme of PHONEMES) {
+    const digit = phonemeToDigit[phoneme];
+    if (digit === undefined || !result[digit]) continue;
+    for (const spelling of phonemeInfo[phoneme].spellings) {
+      if (!result[digit].includes(spelling)) {
+        result[digit].push(spelling);
+      }
     }
   }
   return result;
 }
 
+function buildSystemConfig(
+  name: string,
+  description: string,
+  phonemeToDigit: PhonemeDigits,
+  isCustom?: boolean
+): SystemConfig {
+  return {
+    name,
+    description,
+    phonemeToDigit: { ...phonemeToDigit },
+    mappings: buildMappings(phonemeToDigit),
+    ...(isCustom ? { isCustom } : {}),
+  };
+}
+
+export function buildCustomSystemConfig(definition: CustomSystemDefinition): SystemConfig {
+  return buildSystemConfig(definition.name, definition.description, definition.phonemeToDigit, true);
+}
+
+export const builtInSystems: BuiltInSystem[] = ['do-re-major', 'major'];
+
+// All known systems; user-defined ones are added by registerCustomSystems
 export const mnemonicSystems: Record<MnemonicSystem, SystemConfig> = {
-  'do-re-major': {
-    name: 'Do-Re-Major',
-    description: 'A musical variant using intuitive consonant associations',
-    mappings: doReMajorMappings,
-    consonantToDigit: buildConsonantToDigitMap(doReMajorMappings),
-  },
-  'major': {
-    name: 'Major System',
-    description: 'The classic phonetic number system used since the 17th century',
-    mappings: majorMappings,
-    consonantToDigit: buildConsonantToDigitMap(majorMappings),
-  },
+  // Do-Re-Major system (custom variant)
+  // 1=d/t/th, 2=r, 3=m, 4=f/v, 5=s/z, 6=l, 7=k/hard g, 8=j/ch/sh, 9=p/b, 0=n
+  'do-re-major': buildSystemConfig(
+    'Do-Re-Major',
+    'A musical variant using intuitive consonant associations',
+    expandBridgeDigits({
+      'D': '1', 'N': '0', 'M': '3', 'R': '2', 'L': '6',
+      'J': '8', 'K': '7', 'F': '4', 'P': '9', 'S': '5'
+    })
+  ),
+  // Standard Major mnemonic system
+  // 0=s/z, 1=t/d/th, 2=n, 3=m, 4=r, 5=l, 6=j/ch/sh, 7=k/hard g, 8=f/v, 9=p/b
+  'major': buildSystemConfig(
+    'Major System',
+    'The classic phonetic number system used since the 17th century',
+    expandBridgeDigits({
+      'D': '1', 'N': '2', 'M': '3', 'R': '4', 'L': '5',
+      'J': '6', 'K': '7', 'F': '8', 'P': '9', 'S': '0'
+    })
+  ),
 };
 
+/**
+ * Replace the registered user-defined systems.
+ * Each registration creates fresh config objects so memoised lookups keyed
+ * on the config (e.g. the dictionary digit index) are rebuilt after an edit.
+ */
+export function registerCustomSystems(definitions: CustomSystemDefinition[]): void {
+  for (const id of Object.keys(mnemonicSystems)) {
+    if (mnemonicSystems[id].isCustom) {
+      delete mnemonicSystems[id];
+    }
+  }
+  for (const definition of definitions) {
+    mnemonicSystems[definition.id] = buildCustomSystemConfig(definition);
+  }
+}
+
+/**
+ * Get a system's config, falling back to Do-Re-Major for unknown ids
+ * (e.g. a favourite saved under a custom system that has since been deleted).
+ */
+export function getSystemConfig(system: MnemonicSystem): SystemConfig {
+  return mnemonicSystems[system] ?? mnemonicSystems['do-re-major'];
+}
+
 // Display info for the mapping chart
 export const digitColors: Record<string, string> = {
   '0': 'hsl(var(--chart-1))',
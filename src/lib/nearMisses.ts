@@ -0,0 +1,101 @@
+/**
+ * Near misses: words whose digits are one edit away from a digit sequence
+ * that has no word of its own. Each carries the edit, so the user can judge
+ * whether a slightly imperfect word is worth remembering.
+ */
+
+import { Dictionary, getDigitIndex } from './dictionaryService';
+import { MnemonicSystem } from './mnemonicSystems';
+
+// Positions index the target digits; an extra digit comes before target[position]
+export type DigitEdit =
+  // The word drops target[position]
+  | { kind: 'missing'; position: number; expected: string }
+  // The word adds a digit
+  | { kind: 'extra'; position: number; actual: string }
+  // The word has a different digit for target[position]
+  | { kind: 'wrong'; position: number; expected: string; actual: string };
+
+export interface NearMiss {
+  word: string;
+  // The digits the word encodes
+  digits: string;
+  edit: DigitEdit;
+}
+
+const DIGITS = '0123456789';
+
+/**
+ * Short label for an edit: "−7" (dropped), "+5" (added), "4→7" (changed).
+ */
+export function formatDigitEdit(edit: DigitEdit): string {
+  switch (edit.kind) {
+    case 'missing': return `−${edit.expected}`;
+    case 'extra': return `+${edit.actual}`;
+    case 'wrong': return `${edit.expected}→${edit.actual}`;
+  }
+}
+
+/**
+ * Describe an edit in words, e.g. "drops the 7 (digit 3)".
+ */
+export function describeDigitEdit(edit: DigitEdit): string {
+  switch (edit.kind) {
+    case 'missing': return `drops the ${edit.expected} (digit ${edit.position + 1})`;
+    case 'extra': return `adds a ${edit.actual} before digit ${edit.position + 1}`;
+    case 'wrong': return `has ${edit.actual} instead of ${edit.expected} (digit ${edit.position + 1})`;
+  }
+}
+
+// Every digit sequence one insertion, deletion or substitution away
+export function oneEditVariants(digits: string): { digits: string; edit: DigitEdit }[] {
+  const variants: { digits: string; edit: DigitEdit }[] = [];
+  for (let i = 0; i < digits.length; i++) {
+    const expected = digits[i];
+    variants.push({ digits: digits.slice(0, i) + digits.slice(i + 1), edit: { kind: 'missing', position: i, expected } });
+    for (const actual of DIGITS) {
+      if (actual === expected) continue;
+      variants.push({ digits: digits.slice(0, i) + actual + digits.slice(i + 1), edit: { kind: 'wrong', position: i, expected, actual } });
+    }
+  }
+  for (let i = 0; i <= digits.length; i++) {
+    for (const actual of DIGITS) {
+      variants.push({ digits: digits.slice(0, i) + actual + digits.slice(i), edit: { kind: 'extra', position: i, actual } });
+    }
+  }
+  // Edits next to a repeated digit give the same sequence; keep the first
+  const seen = new Set<string>();
+  return variants.filter(variant => {
+    if (variant.digits.length === 0 || seen.has(variant.digits)) return false;
+    seen.add(variant.digits);
+    return true;
+  });
+}
+
+/**
+ * Find words one digit edit away from the given digits, best-ranked words
+ * first: the top word of every near sequence, then the second, and so on.
+ */
+export function findNearMisses(
+  dictionary: Dictionary,
+  digits: string,
+  system: MnemonicSystem,
+  maxResults: number = 20
+): NearMiss[] {
+  const index = getDigitIndex(dictionary, system);
+  const candidates = oneEditVariants(digits)
+    .map(variant => ({ ...variant, words: index.get(variant.digits)?.words ?? [] }))
+    .filter(variant => variant.words.length > 0);
+
+  const results: NearMiss[] = [];
+  const longest = Math.max(0, ...candidates.map(candidate => candidate.words.length));
+  for (let rank = 0; rank < longest && results.length < maxResults; rank++) {
+    for (const candidate of candidates) {
+      const word = candidate.words[rank];
+      if (word === undefined) continue;
+      results.push({ word, digits: candidate.digits, edit: candidate.edit });
+      if (results.length >= maxResults) break;
+    }
+  }
+  return results;
+}
@@ -0,0 +1,88 @@
+/**
+ * Decode a word or phrase back into digits: the reverse of the matcher. Each
+ * word's sounds come from the dictionary when it is listed there, and from
+ * the spelling rules otherwise, and are kept with the letters that spell
+ * them so the breakdown can show where every digit comes from.
+ */
+
+import { Dictionary, findPhonemeCodesForWord, getDictionaryAccent } from './dictionaryService';
+import { alignPhonemes } from './graphemeAlignment';
+import { MnemonicSystem, Phoneme, getSystemConfig } from './mnemonicSystems';
+import { spellSounds } from './spellingRules';
+
+export interface DecodedSound {
+  phoneme: Phoneme;
+  // Undefined when the system gives this sound no digit
+  digit?: string;
+  // Letter span [start, end) in the word, when the letters could be aligned
+  start?: number;
+  end?: number;
+}
+
+export interface DecodedWord {
+  word: string;
+  // Where the sounds came from: a listed pronunciation or the spelling rules
+  source: 'dictionary' | 'spelling';
+  phonemeCode: string;
+  digits: string;
+  sounds: DecodedSound[];
+  // Digits of the word's other dictionary pronunciations, if they differ
+  alternativeDigits: string[];
+}
+
+export interface DecodedPhrase {
+  words: DecodedWord[];
+  digits: string;
+}
+
+// Words are runs of letters, keeping inner apostrophes ("don't")
+const WORD_PATTERN = /[a-z]+(?:'[a-z]+)*/gi;
+
+/**
+ * Split a phrase into its words, ignoring punctuation and numbers.
+ */
+export function splitPhrase(phrase: string): string[] {
+  return phrase.match(WORD_PATTERN) ?? [];
+}
+
+/**
+ * Decode one word. The dictionary's first pronunciation is preferred, as in
+ * the peg validator; unknown words are estimated from their spelling in the
+ * dictionary's accent.
+ */
+export function decodeWord(word: string, system: MnemonicSystem, dictionary?: Dictionary | null): DecodedWord {
+  const { phonemeToDigit } = getSystemConfig(system);
+  const toDigits = (code: string) => code.split('').map(char => phonemeToDigit[char] ?? '').join('');
+  const dictionaryCodes = dictionary ? findPhonemeCodesForWord(dictionary, word) : [];
+
+  if (dictionaryCodes.length > 0) {
+    const [phonemeCode, ...otherCodes] = dictionaryCodes;
+    const digits = toDigits(phonemeCode);
+    const spans = alignPhonemes(word, phonemeCode);
+    const sounds = (phonemeCode.split('') as Phoneme[]).map((phoneme, i) => ({
+      phoneme,
+      digit: phonemeToDigit[phoneme],
+      ...spans?.[i],
+    }));
+    const alternativeDigits = [...new Set(otherCodes.map(toDigits))].filter(other => other !== digits);
+    return { word, source: 'dictionary', phonemeCode, digits, sounds, alternativeDigits };
+  }
+
+  const rhotic = dictionary ? getDictionaryAccent(dictionary) === 'rhotic' : false;
+  const sounds = spellSounds(word, { rhotic }).map(({ sound, start, end }) => ({
+    phoneme: sound,
+    digit: phonemeToDigit[sound],
+    start,
+    end,
+  }));
+  const phonemeCode = sounds.map(s => s.phoneme).join('');
+  return { word, source: 'spelling', phonemeCode, digits: toDigits(phonemeCode), sounds, alternativeDigits: [] };
+}
+
+/**
+ * Decode every word of a phrase; the phrase's digits are the words' digits in order.
+ */
+export function decodePhrase(phrase: string, system: MnemonicSystem, dictionary?: Dictionary | null): DecodedPhrase {
+  const words = splitPhrase(phrase).map(word => decodeWord(word, system, dictionary));
+  return { words, digits: words.map(w => w.digits).join('') };
+}
@@ -0,0 +1,53 @@
+/**
+ * Binary min-heap: the item the comparator orders first is popped first.
+ * Push and pop are O(log n).
+ */
+export class PriorityQueue<T> {
+  private readonly items: T[] = [];
+
+  constructor(private readonly compare: (a: T, b: T) => number) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+    // Sift up
+    let index = items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.compare(items[index], items[parent]) >= 0) break;
+      [items[index], items[parent]] = [items[parent], items[index]];
+      index = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    if (items.length === 0) return undefined;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length === 0) return top;
+
+    // Move the last item to the root and sift it down
+    items[0] = last;
+    let index = 0;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < items.length && this.compare(items[left], items[smallest]) < 0) smallest = left;
+      if (right < items.length && this.compare(items[right], items[smallest]) < 0) smallest = right;
+      if (smallest === index) break;
+      [items[index], items[smallest]] = [items[smallest], items[index]];
+      index = smallest;
+    }
+    return top;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Pronounceable pseudo-words for digit sequences the dictionary has no word
+ * for: the consonants of the digits with vowels put between them, keeping
+ * only consonant clusters English allows at that point of a word. Every
+ * candidate is checked against the spelling rules, so it decodes back to
+ * the same digits in the peg validator and the decoder.
+ */
+
+import { MnemonicSystem, Phoneme, getSystemConfig } from './mnemonicSystems';
+import { getSensitiveCategory } from './sensitiveWords';
+import { spellSounds } from './spellingRules';
+
+// Plainest spelling of each phoneme, in order of preference; phonemes without
+// a spelling the rules read back unambiguously (the "th" of "this", "zh") are left out
+const SPELLINGS: [Phoneme, string][] = [
+  ['t', 't'], ['d', 'd'], ['n', 'n'], ['m', 'm'], ['r', 'r'], ['l', 'l'],
+  ['k', 'k'], ['g', 'g'], ['f', 'f'], ['v', 'v'], ['p', 'p'], ['b', 'b'],
+  ['s', 's'], ['z', 'z'], ['j', 'j'], ['c', 'ch'], ['x', 'sh'], ['T', 'th'], ['G', 'ng'],
+];
+
+// Two consonants that may start a word or syllable without a vowel between them
+const ONSETS = new Set([
+  'tr', 'dr', 'pr', 'br', 'kr', 'gr', 'fr', 'Tr',
+  'pl', 'bl', 'kl', 'gl', 'fl', 'sl',
+  'st', 'sp', 'sk', 'sm', 'sn',
+]);
+
+// Two consonants that may end a word
+const CODAS = new Set([
+  'nt', 'nd', 'mp', 'st', 'sk', 'sp', 'lt', 'ld', 'lk', 'lp', 'lf',
+  'ft', 'pt', 'kt', 'ks', 'ps', 'ts', 'Gk',
+]);
+
+// Between vowels a pair can also split across syllables after a sonorant or "s" ("tinmo"),
+// though not "sz", which runs together
+const SYLLABLE_ENDS = 'nmlrs';
+
+function clustersMidWord(pair: string): boolean {
+  if (ONSETS.has(pair) || CODAS.has(pair)) return true;
+  return SYLLABLE_ENDS.includes(pair[0]) && pair[0] !== pair[1] && pair !== 'sz';
+}
+
+const VOWELS = ['a', 'o', 'i', 'e', 'u', 'ee', 'oo', 'ai'];
+const VOWEL_VARIANTS = 4;
+const FINAL_VOWEL = 'o';
+// Caps the phoneme choices tried when several phonemes share a digit
+const MAX_SEQUENCES = 24;
+// Enough candidates to pick the shortest from; later phoneme choices are rarely better
+const CANDIDATES_PER_RESULT = 4;
+
+export interface PseudoWordOptions {
+  // Read "r" the rhotic way when checking candidates
+  rhotic?: boolean;
+  maxResults?: number;
+  // Words that are not invented (e.g. dictionary words) to leave out
+  isKnownWord?: (word: string) => boolean;
+}
+
+// Each way of choosing one phoneme per digit, plainest spellings first
+function phonemeSequences(digits: string, system: MnemonicSystem): Phoneme[][] {
+  const { phonemeToDigit } = getSystemConfig(system);
+  const choices = digits.split('').map(digit =>
+    SPELLINGS.filter(([phoneme]) => phonemeToDigit[phoneme] === digit).map(([phoneme]) => phoneme)
+  );
+  if (choices.some(options => options.length === 0)) return [];
+
+  let sequences: Phoneme[][] = [[]];
+  for (const options of choices) {
+    sequences = sequences
+      .flatMap(sequence => options.map(phoneme => [...sequence, phoneme]))
+      .slice(0, MAX_SEQUENCES);
+  }
+  return sequences;
+}
+
+// Spell a phoneme sequence, clustering consonants where allowed when compact
+function spell(phonemes: Phoneme[], compact: boolean, variant: number, finalVowel: boolean): string {
+  const letters = new Map(SPELLINGS);
+  let word = '';
+  let run = 0; // consonants since the last vowel
+  phonemes.forEach((phoneme, i) => {
+    word += letters.get(phoneme);
+    run++;
+    const next = phonemes[i + 1];
+    if (next === undefined) return;
+
+    const pair = phoneme + next;
+    const isLast = i + 1 === phonemes.length - 1;
+    const clusters = compact && run === 1 && next !== phoneme && (
+      (i === 0 ? ONSETS.has(pair) : clustersMidWord(pair)) &&
+      // A final pair must be a valid coda unless a vowel follows it
+      (!isLast || finalVowel || CODAS.has(pair))
+    );
+    if (!clusters) {
+      word += VOWELS[(variant + i * 3) % VOWELS.length];
+      run = 0;
+    }
+  });
+  if (finalVowel || phonemes.length === 1) word += FINAL_VOWEL;
+  return word;
+}
+
+/**
+ * Generate pronounceable pseudo-words for a digit sequence, shortest first,
+ * with the consonant letters capitalised like dictionary words ("BaMTo").
+ */
+export function generatePseudoWords(digits: string, system: MnemonicSystem, options: PseudoWordOptions = {}): string[] {
+  const { rhotic = false, maxResults = 5, isKnownWord } = options;
+  const { phonemeToDigit } = getSystemConfig(system);
+  const seen = new Set<string>();
+  const results: string[] = [];
+
+  for (const phonemes of phonemeSequences(digits, system)) {
+    if (results.length >= maxResults * CANDIDATES_PER_RESULT) break;
+    for (const compact of [true, false]) {
+      for (const finalVowel of [false, true]) {
+        for (let variant = 0; variant < VOWEL_VARIANTS; variant++) {
+          const word = spell(phonemes, compact, variant, finalVowel);
+          if (seen.has(word)) continue;
+          seen.add(word);
+
+          // Keep only words the spelling rules read back as the same digits
+          const sounds = spellSounds(word, { rhotic });
+          if (sounds.map(s => phonemeToDigit[s.sound] ?? '').join('') !== digits) continue;
+          if (getSensitiveCategory(word) || isKnownWord?.(word)) continue;
+
+          const chars = word.split('');
+          for (const { start, end } of sounds) {
+            for (let i = start; i < end; i++) chars[i] = chars[i].toUpperCase();
+          }
+          results.push(chars.join(''));
+        }
+      }
+    }
+  }
+
+  return results
+    .sort((a, b) => a.length - b.length)
+    .slice(0, maxResults);
+}
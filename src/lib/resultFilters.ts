@@ -0,0 +1,119 @@
+/**
+ * Result filters: restrict the words offered for a number by part of speech,
+ * concreteness and length, by the user's own block and allow lists, and by
+ * family-safe mode.
+ * Filters work on a derived dictionary, so every matcher (segments, splits,
+ * combinations) sees the same words.
+ */
+
+import { Dictionary, filterDictionaryWords, getWordInfo, hasWordInfo } from './dictionaryService';
+import { stripWordMarkers, wordKey } from './dictionaryWords';
+import { estimateSyllables } from './spellingRules';
+import { getSensitiveCategory } from './sensitiveWords';
+
+export interface ResultFilters {
+  // Only nouns (including names, unless hidden), plus the parts of speech allowed below
+  nounsOnly: boolean;
+  allowVerbs: boolean;
+  allowAdjectives: boolean;
+  // Minimum concreteness rating, 1 to 5; 0 for no minimum
+  minConcreteness: number;
+  // Maximum syllables; null for no maximum
+  maxSyllables: number | null;
+  hideProperNouns: boolean;
+  // Personal lists (see useWordLists), as word keys: blocked words never appear,
+  // allowed words skip the other filters
+  blockedWords?: string[];
+  allowedWords?: string[];
+  // Family-safe mode (see useFamilySafeMode): hide sensitive words, even allowed ones
+  familySafe?: boolean;
+}
+
+export const DEFAULT_FILTERS: ResultFilters = {
+  nounsOnly: false,
+  allowVerbs: false,
+  allowAdjectives: false,
+  minConcreteness: 0,
+  maxSyllables: null,
+  hideProperNouns: false,
+};
+
+/**
+ * Whether the filters need word metadata, which only the rich dictionary
+ * format has. Without it, only the syllable limit (estimated from spelling) applies.
+ */
+export function needsWordInfo(filters: ResultFilters): boolean {
+  return filters.nounsOnly || filters.minConcreteness > 0 || filters.hideProperNouns;
+}
+
+/**
+ * Whether any filter would remove words. Pass withWordInfo false for a
+ * dictionary without word metadata, where the filters needing it do nothing.
+ */
+export function hasActiveFilters(filters: ResultFilters, withWordInfo = true): boolean {
+  return (withWordInfo && needsWordInfo(filters)) || filters.maxSyllables !== null ||
+    (filters.blockedWords?.length ?? 0) > 0 || Boolean(filters.familySafe);
+}
+
+function createPredicate(dictionary: Dictionary, filters: ResultFilters): (word: string) => boolean {
+  const useInfo = hasWordInfo(dictionary);
+  const blocked = new Set(filters.blockedWords);
+  const allowed = new Set(filters.allowedWords);
+  return word => {
+    const key = wordKey(word);
+    if (blocked.has(key)) return false;
+
+    // Generated dictionaries flag sensitive words; check the bundled list for the rest
+    const info = getWordInfo(dictionary, word);
+    if (filters.familySafe && (info?.sensitive ?? getSensitiveCategory(key))) return false;
+    if (allowed.has(key)) return true;
+
+    if (filters.maxSyllables !== null) {
+      const syllables = info?.syllables ?? estimateSyllables(stripWordMarkers(word));
+      if (syllables > filters.maxSyllables) return false;
+    }
+    if (!useInfo) return true;
+
+    // Words the norms don't cover have no part of speech or rating, so strict filters drop them
+    const pos = info?.pos;
+    if (filters.hideProperNouns && pos === 'name') return false;
+    if (filters.nounsOnly) {
+      const allowed = pos === 'noun' || pos === 'name' ||
+        (filters.allowVerbs && pos === 'verb') ||
+        (filters.allowAdjectives && pos === 'adjective');
+      if (!allowed) return false;
+    }
+    if (filters.minConcreteness > 0 && (info?.concreteness ?? 0) < filters.minConcreteness) return false;
+    return true;
+  };
+}
+
+// Filtered views per dictionary and filter settings
+const filteredCache = new WeakMap<Dictionary, Map<string, Dictionary>>();
+
+/**
+ * Get the dictionary with only the words the filters allow. Cached, so the
+ * digit index built on the filtered view is reused.
+ */
+export function applyResultFilters(dictionary: Dictionary, filters: ResultFilters = DEFAULT_FILTERS): Dictionary {
+  if (!hasActiveFilters(filters, hasWordInfo(dictionary))) return dictionary;
+
+  let perFilters = filteredCache.get(dictionary);
+  if (!perFilters) {
+    perFilters = new Map();
+    filteredCache.set(dictionary, perFilters);
+  }
+
+  const key = JSON.stringify([
+    ...Object.keys(DEFAULT_FILTERS).map(name => filters[name as keyof ResultFilters]),
+    filters.blockedWords ?? [],
+    filters.allowedWords ?? [],
+    Boolean(filters.familySafe),
+  ]);
+  let filtered = perFilters.get(key);
+  if (!filtered) {
+    filtered = filterDictionaryWords(dictionary, createPredicate(dictionary, filters));
+    perFilters.set(key, filtered);
+  }
+  return filtered;
+}
@@ -0,0 +1,89 @@
+/**
+ * Export file for the user's saved data: favourites (including custom pegs),
+ * the personal word lists and custom systems, so they can move to another device.
+ */
+
+import { Favorite } from '@/hooks/useFavorites';
+import { WordLists } from '@/hooks/useWordLists';
+import { CustomSystemDefinition, PHONEMES, builtInSystems } from '@/lib/mnemonicSystems';
+import { wordKey } from '@/lib/dictionaryWords';
+
+export interface SavedDataFile {
+  version: 1;
+  exportedAt: string;
+  favorites: Favorite[];
+  wordLists: WordLists;
+  // Systems the favourites may be saved under; missing from files exported before they were included
+  customSystems: CustomSystemDefinition[];
+}
+
+export const SAVED_DATA_FILE_NAME = 'do-re-major-saved.json';
+
+export function createSavedDataFile(
+  favorites: Favorite[],
+  wordLists: WordLists,
+  customSystems: CustomSystemDefinition[]
+): SavedDataFile {
+  return { version: 1, exportedAt: new Date().toISOString(), favorites, wordLists, customSystems };
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isPhonemeDigits = (value: unknown): value is CustomSystemDefinition['phonemeToDigit'] =>
+  typeof value === 'object' && value !== null && Object.entries(value).every(
+    ([phoneme, digit]) => (PHONEMES as readonly string[]).includes(phoneme) && typeof digit === 'string' && /^\d$/.test(digit)
+  );
+
+/**
+ * Parse an exported file, throwing an Error that describes the first problem.
+ */
+export function parseSavedDataFile(text: string): SavedDataFile {
+  let data: Partial<SavedDataFile>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (!data || data.version !== 1) {
+    throw new Error('The file is not a Do Re Major export');
+  }
+
+  const favorites = (Array.isArray(data.favorites) ? data.favorites : []).map((favorite, index): Favorite => {
+    if (typeof favorite?.digits !== 'string' || !isStringArray(favorite.words) || typeof favorite.system !== 'string') {
+      throw new Error(`Favourite ${index + 1} needs digits, words and a system`);
+    }
+    return {
+      ...favorite,
+      id: typeof favorite.id === 'string' ? favorite.id : `${Date.now()}-${index}`,
+      createdAt: typeof favorite.createdAt === 'number' ? favorite.createdAt : Date.now(),
+    };
+  });
+
+  const blockedWords = data.wordLists?.blocked ?? [];
+  const allowedWords = data.wordLists?.allowed ?? [];
+  if (!isStringArray(blockedWords) || !isStringArray(allowedWords)) {
+    throw new Error('The word lists must be lists of words');
+  }
+  // Listed words are matched by key, as the Block and Allow buttons store them
+  const toKeys = (words: string[]) => [...new Set(words.map(word => wordKey(word.trim())).filter(Boolean))];
+  const blocked = toKeys(blockedWords);
+  const allowed = toKeys(allowedWords);
+
+  const customSystems = (Array.isArray(data.customSystems) ? data.customSystems : []).map((system, index): CustomSystemDefinition => {
+    if (typeof system?.id !== 'string' || typeof system.name !== 'string' || !isPhonemeDigits(system.phonemeToDigit)) {
+      throw new Error(`Custom system ${index + 1} needs an id, a name and a digit per sound`);
+    }
+    if ((builtInSystems as string[]).includes(system.id)) {
+      throw new Error(`Custom system ${index + 1} has the id of the built-in "${system.id}" system`);
+    }
+    return {
+      id: system.id,
+      name: system.name,
+      description: typeof system.description === 'string' ? system.description : '',
+      phonemeToDigit: system.phonemeToDigit,
+    };
+  });
+
+  return { version: 1, exportedAt: data.exportedAt ?? '', favorites, wordLists: { blocked, allowed }, customSystems };
+}
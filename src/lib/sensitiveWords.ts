@@ -0,0 +1,80 @@
+/**
+ * Bundled list of words unsuitable for children, for family-safe mode.
+ * Shared by the app (filtering at run time) and the dictionary generator
+ * (flagging words in the rich format), so both agree offline.
+ */
+
+export type SensitiveCategory = 'vulgar' | 'sexual' | 'slur';
+
+export const sensitiveCategoryInfo: Record<SensitiveCategory, { label: string }> = {
+  'vulgar': { label: 'Vulgar' },
+  'sexual': { label: 'Sexual' },
+  'slur': { label: 'Slur' },
+};
+
+// Base forms; inflections (see INFLECTIONS) match too
+const WORDS: Record<SensitiveCategory, string[]> = {
+  'vulgar': [
+    'arse', 'arsehole', 'ass', 'asshole', 'bastard', 'bitch', 'bloody', 'bollock', 'bollocks', 'bugger',
+    'bullshit', 'crap', 'crappy', 'damn', 'dick', 'dickhead', 'fart', 'fuck', 'goddamn', 'piss', 'prick',
+    'shit', 'shite', 'shitty', 'sod', 'twat', 'wank', 'wanker',
+  ],
+  'sexual': [
+    'anal', 'bondage', 'boob', 'clit', 'clitoris', 'cock', 'condom', 'cum', 'dildo', 'ejaculate',
+    'erection', 'erotic', 'fellatio', 'foreskin', 'horny', 'hooker', 'incest', 'masturbate', 'nipple',
+    'orgasm', 'orgy', 'penis', 'porn', 'porno', 'pube', 'pussy', 'rape', 'rapist', 'semen', 'sex',
+    'sexy', 'slut', 'sperm', 'testicle', 'tit', 'vagina', 'vibrator', 'voyeur', 'whore',
+  ],
+  'slur': [
+    'chink', 'coon', 'dyke', 'fag', 'faggot', 'gook', 'honky', 'kike', 'nigger', 'paki',
+    'poof', 'raghead', 'retard', 'spastic', 'spic', 'tranny', 'wetback', 'wog',
+  ],
+};
+
+// Plural and verb endings, which any listed word can take
+const INFLECTIONS = ['s', 'es', 'ed', 'ing'];
+
+// Agent-noun endings, only for the verbs that form them ("fucker"), so that
+// unrelated words sharing a prefix ("cocker", "titer") don't match
+const AGENT_SUFFIXES = ['er', 'ers'];
+const AGENT_BASES = new Set(['fart', 'fuck', 'piss', 'shit', 'wank']);
+
+// Innocent words that look like an inflection of a listed one
+const EXCEPTIONS = new Set([
+  'cocked', 'cocking', 'damning', 'pricked', 'pricking', 'pubs', 'retarding', 'spiced', 'spices',
+  'spicing', 'spicy',
+]);
+
+const CATEGORY_BY_WORD = new Map<string, SensitiveCategory>(
+  (Object.entries(WORDS) as [SensitiveCategory, string[]][])
+    .flatMap(([category, words]) => words.map(word => [word, category] as const))
+);
+
+/**
+ * Get the sensitive category of a word (lowercase, without highlighting), or
+ * undefined if it is not listed. Inflected forms ("wankers") match their base.
+ * Extra words, such as the generator's --sensitive-words file, can be passed in.
+ */
+export function getSensitiveCategory(
+  word: string,
+  extraWords?: ReadonlyMap<string, SensitiveCategory>
+): SensitiveCategory | undefined {
+  const lookup = (candidate: string) => extraWords?.get(candidate) ?? CATEGORY_BY_WORD.get(candidate);
+  const direct = lookup(word);
+  if (direct) return direct;
+  if (EXCEPTIONS.has(word)) return undefined;
+
+  for (const suffix of [...INFLECTIONS, ...AGENT_SUFFIXES]) {
+    if (word.length > suffix.length + 2 && word.endsWith(suffix)) {
+      const stem = word.slice(0, -suffix.length);
+      // "fucked" -> "fuck", "raped" -> "rape", "fagging" -> "fag"
+      const bases = [stem, stem + 'e', ...(stem[stem.length - 1] === stem[stem.length - 2] ? [stem.slice(0, -1)] : [])];
+      for (const base of bases) {
+        if (AGENT_SUFFIXES.includes(suffix) && !AGENT_BASES.has(base)) continue;
+        const category = lookup(base);
+        if (category) return category;
+      }
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,193 @@
+/**
+ * Spelling rules for estimating a word's consonant sounds when no
+ * pronunciation is known. Shared by the app (peg validation) and the
+ * dictionary generator (words without IPA data), so both agree.
+ */
+
+import { Phoneme } from './mnemonicSystems';
+
+export interface SpelledSound {
+  sound: Phoneme;
+  // Letter span [start, end) in the word that spells this sound
+  start: number;
+  end: number;
+}
+
+export interface SpellingOptions {
+  // Pronounce every written "r" (American-style); by default an "r" not followed by a vowel is silent
+  rhotic?: boolean;
+}
+
+type Context = (word: string, index: number, options: SpellingOptions) => boolean;
+
+interface SpellingRule {
+  letters: string;
+  // Sounds produced as [sound, start, end] relative to the matched letters; empty for silent letters
+  sounds: [Phoneme, number, number][];
+  when?: Context;
+}
+
+const VOWELS = 'aeiouy';
+
+const isVowel = (char: string | undefined) => char !== undefined && VOWELS.includes(char);
+
+const atStart: Context = (_word, index) => index === 0;
+
+// The rule's letters end the word, optionally followed by one of the given suffixes
+const atEnd = (length: number, suffixes: string[] = []): Context => (word, index) => {
+  const rest = word.slice(index + length);
+  return rest === '' || suffixes.includes(rest);
+};
+
+const followedBy = (length: number, nexts: string[]): Context => (word, index) =>
+  nexts.some(next => word.startsWith(next, index + length));
+
+const precededBy = (chars: string): Context => (word, index) =>
+  index > 0 && chars.includes(word[index - 1]);
+
+// Non-rhotic "r": only sounded before a vowel, and not in a final "-re", "-res" or "-red"
+const soundedR = (length: number): Context => (word, index, options) => {
+  if (options.rhotic) return true;
+  const next = word[index + length];
+  if (!isVowel(next)) return false;
+  return !(next === 'e' && atEnd(length + 1, ['s', 'd'])(word, index, options));
+};
+
+// Ordered so that longer and more specific patterns are tried first
+const RULES: SpellingRule[] = [
+  { letters: 'tch', sounds: [['c', 0, 3]] },
+  { letters: 'dge', sounds: [['j', 0, 2]] },
+  { letters: 'sch', sounds: [['s', 0, 1], ['k', 1, 3]] },
+  { letters: 'ssi', sounds: [['x', 0, 2]], when: followedBy(3, ['on']) },
+  { letters: 'ght', sounds: [['t', 2, 3]] },
+  { letters: 'ti', sounds: [['x', 0, 1]], when: (w, i, o) => i > 0 && followedBy(2, ['on', 'al', 'ous', 'en'])(w, i, o) },
+  { letters: 'si', sounds: [['Z', 0, 1]], when: (w, i, o) => i > 0 && isVowel(w[i - 1]) && followedBy(2, ['on'])(w, i, o) },
+  { letters: 'si', sounds: [['x', 0, 1]], when: (w, i, o) => i > 0 && followedBy(2, ['on'])(w, i, o) },
+  { letters: 'ci', sounds: [['x', 0, 1]], when: (w, i, o) => i > 0 && followedBy(2, ['al', 'ous', 'an', 'en'])(w, i, o) },
+  { letters: 'gh', sounds: [['g', 0, 2]], when: atStart },
+  { letters: 'gh', sounds: [] },
+  { letters: 'ph', sounds: [['f', 0, 2]] },
+  { letters: 'th', sounds: [['T', 0, 2]] },
+  { letters: 'sh', sounds: [['x', 0, 2]] },
+  { letters: 'ch', sounds: [['k', 0, 2]], when: followedBy(2, ['r']) },
+  { letters: 'ch', sounds: [['c', 0, 2]] },
+  { letters: 'ck', sounds: [['k', 0, 2]] },
+  { letters: 'qu', sounds: [['k', 0, 1]] },
+  { letters: 'ng', sounds: [['G', 0, 2]], when: atEnd(2, ['s']) },
+  { letters: 'nk', sounds: [['G', 0, 1], ['k', 1, 2]] },
+  { letters: 'kn', sounds: [['n', 1, 2]], when: atStart },
+  { letters: 'gn', sounds: [['n', 1, 2]], when: (w, i, o) => atStart(w, i, o) || atEnd(2, ['s', 'ed'])(w, i, o) },
+  { letters: 'pn', sounds: [['n', 1, 2]], when: atStart },
+  { letters: 'ps', sounds: [['s', 1, 2]], when: atStart },
+  { letters: 'wr', sounds: [['r', 1, 2]], when: atStart },
+  { letters: 'mb', sounds: [['m', 0, 1]], when: atEnd(2, ['s']) },
+  { letters: 'mn', sounds: [['m', 0, 1]], when: atEnd(2, ['s']) },
+  { letters: 'lk', sounds: [['k', 1, 2]], when: precededBy('ao') },
+  { letters: 'lm', sounds: [['m', 1, 2]], when: precededBy('a') },
+  { letters: 'st', sounds: [['s', 0, 1]], when: followedBy(2, ['le', 'en']) },
+  { letters: 'xc', sounds: [['k', 0, 1], ['s', 0, 2]], when: followedBy(2, ['e', 'i']) },
+  { letters: 'x', sounds: [['z', 0, 1]], when: atStart },
+  { letters: 'x', sounds: [['k', 0, 1], ['s', 0, 1]] },
+  { letters: 'cc', sounds: [['k', 0, 1], ['s', 1, 2]], when: followedBy(2, ['e', 'i', 'y']) },
+  { letters: 'cc', sounds: [['k', 0, 2]] },
+  { letters: 'c', sounds: [['s', 0, 1]], when: followedBy(1, ['e', 'i', 'y']) },
+  { letters: 'c', sounds: [['k', 0, 1]] },
+  { letters: 'gg', sounds: [['g', 0, 2]] },
+  { letters: 'g', sounds: [['j', 0, 1]], when: (w, i, o) => followedBy(1, ['y', 'ion', 'ia', 'in', 'en'])(w, i, o) || (w[i + 1] === 'e' && atEnd(2, ['s', 'd'])(w, i, o)) },
+  { letters: 'g', sounds: [['g', 0, 1]] },
+  { letters: 'rr', sounds: [['r', 0, 2]], when: soundedR(2) },
+  { letters: 'rr', sounds: [] },
+  { letters: 'r', sounds: [['r', 0, 1]], when: soundedR(1) },
+  { letters: 'r', sounds: [] },
+];
+
+const SINGLE_LETTER_SOUNDS: Record<string, Phoneme> = {
+  'b': 'b', 'd': 'd', 'f': 'f', 'j': 'j', 'k': 'k', 'l': 'l', 'm': 'm',
+  'n': 'n', 'p': 'p', 'q': 'k', 's': 's', 't': 't', 'v': 'v', 'z': 'z',
+};
+
+/**
+ * Estimate the consonant sounds of a word from its spelling.
+ * Vowels, "h", "w", "y" and silent letters produce nothing; doubled
+ * consonants count once.
+ */
+export function spellSounds(word: string, options: SpellingOptions = {}): SpelledSound[] {
+  const w = word.toLowerCase();
+  const result: SpelledSound[] = [];
+  let i = 0;
+
+  while (i < w.length) {
+    const rule = RULES.find(r => w.startsWith(r.letters, i) && (!r.when || r.when(w, i, options)));
+    if (rule) {
+      for (const [sound, start, end] of rule.sounds) {
+        result.push({ sound, start: i + start, end: i + end });
+      }
+      i += rule.letters.length;
+      continue;
+    }
+
+    const sound = SINGLE_LETTER_SOUNDS[w[i]];
+    if (sound) {
+      // Doubled letters (ll, ss, tt...) spell a single sound
+      const length = w[i + 1] === w[i] ? 2 : 1;
+      result.push({ sound, start: i, end: i + length });
+      i += length;
+    } else {
+      i++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Estimate a word's phoneme code (e.g. "drm" for "dream") from its spelling.
+ */
+export function spellingToPhonemeCode(word: string, options: SpellingOptions = {}): string {
+  return spellSounds(word, options).map(s => s.sound).join('');
+}
+
+/**
+ * Add the "r" sounds a rhotic speaker pronounces to a non-rhotic phoneme code,
+ * e.g. "d" for "door" becomes "dr". Each "r" that the spelling rules only
+ * sound when rhotic is inserted after the same number of consonants as in the
+ * spelling. If the spelling and the pronunciation disagree on the consonant
+ * count, only an "r" after the last consonant can be placed. Codes that
+ * already have as many "r"s as the rhotic spelling (e.g. "mtr" for "motor",
+ * from spelling-based dictionaries) are left alone.
+ */
+export function toRhoticPhonemeCode(word: string, phonemeCode: string): string {
+  const sounded = spellSounds(word);
+  const soundedStarts = new Set(sounded.map(s => s.start));
+  const aligned = sounded.length === phonemeCode.length;
+  const rhoticSounds = spellSounds(word, { rhotic: true });
+  const countR = (sounds: string[]) => sounds.filter(sound => sound === 'r').length;
+  let missing = countR(rhoticSounds.map(s => s.sound)) - countR(phonemeCode.split(''));
+
+  let result = phonemeCode;
+  let inserted = 0;
+  for (const extra of rhoticSounds) {
+    if (missing <= 0) break;
+    if (soundedStarts.has(extra.start)) continue;
+    const before = sounded.filter(s => s.start < extra.start).length;
+    if (!aligned && before < sounded.length) continue;
+
+    const position = aligned ? before + inserted : result.length;
+    if (position === result.length && result.endsWith('r')) continue;
+    result = result.slice(0, position) + 'r' + result.slice(position);
+    inserted++;
+    missing--;
+  }
+  return result;
+}
+
+/**
+ * Estimate a word's syllable count from its spelling: one per group of
+ * vowel letters, not counting a silent final "e" (but counting "-le" as in "bottle").
+ */
+export function estimateSyllables(word: string): number {
+  const w = word.toLowerCase().replace(/[^a-z]/g, '');
+  const groups = w.match(/[aeiouy]+/g)?.length ?? 0;
+  const silentE = /[^aeiouy]e$/.test(w) && !/[^aeiouy]le$/.test(w) ? 1 : 0;
+  return Math.max(1, groups - silentE);
+}
@@ -0,0 +1,80 @@
+/**
+ * Word locks: words the user has committed to for a range of the number
+ * (e.g. "MoToR" for 312 at the start). The matchers keep locked ranges as
+ * they are and only solve the digits around them.
+ */
+
+export interface WordLock {
+  // Position of the range's first digit in the number
+  start: number;
+  digits: string;
+  word: string;
+}
+
+function lockEnd(lock: WordLock): number {
+  return lock.start + lock.digits.length;
+}
+
+/**
+ * Get the locks whose digits are still at their position in the number.
+ */
+export function getActiveLocks(locks: WordLock[], digits: string): WordLock[] {
+  return locks.filter(lock => digits.slice(lock.start, lockEnd(lock)) === lock.digits);
+}
+
+/**
+ * Get the lock on exactly this range of the number, if any.
+ */
+export function findLock(locks: WordLock[], start: number, digits: string): WordLock | undefined {
+  return locks.find(lock => lock.start === start && lock.digits === digits);
+}
+
+/**
+ * Whether a part of the number starting at start can be matched freely: it
+ * doesn't overlap any locked range. A part that is exactly a locked range
+ * only takes the locked word (see findLock).
+ */
+export function isFreeRange(locks: WordLock[], start: number, length: number): boolean {
+  return locks.every(lock => start + length <= lock.start || start >= lockEnd(lock));
+}
+
+/**
+ * Lock a word onto a range, replacing any locks it overlaps.
+ */
+export function addLock(locks: WordLock[], lock: WordLock): WordLock[] {
+  return [...locks.filter(other => isFreeRange([lock], other.start, other.digits.length)), lock]
+    .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Keep locks through an edit of the number: locks in the unchanged start keep
+ * their position, locks in the unchanged end move with it, and locks on
+ * edited digits are dropped. Where the edit is ambiguous (deleting "00" from
+ * "4004" could have been either side of a 4) the reading keeping more locks wins.
+ */
+export function shiftLocks(locks: WordLock[], oldDigits: string, newDigits: string): WordLock[] {
+  if (locks.length === 0 || oldDigits === newDigits) return locks;
+  const shortest = Math.min(oldDigits.length, newDigits.length);
+  const commonPrefix = (limit: number) => {
+    let length = 0;
+    while (length < limit && oldDigits[length] === newDigits[length]) length++;
+    return length;
+  };
+  const commonSuffix = (limit: number) => {
+    let length = 0;
+    while (length < limit && oldDigits[oldDigits.length - 1 - length] === newDigits[newDigits.length - 1 - length]) length++;
+    return length;
+  };
+
+  const keep = (prefix: number, suffix: number) => locks.flatMap(lock => {
+    if (lockEnd(lock) <= prefix) return [lock];
+    if (lock.start >= oldDigits.length - suffix) return [{ ...lock, start: lock.start + newDigits.length - oldDigits.length }];
+    return [];
+  });
+
+  const prefix = commonPrefix(shortest);
+  const suffix = commonSuffix(shortest);
+  const prefixFirst = keep(prefix, commonSuffix(shortest - prefix));
+  const suffixFirst = keep(commonPrefix(shortest - suffix), suffix);
+  return suffixFirst.length > prefixFirst.length ? suffixFirst : prefixFirst;
+}
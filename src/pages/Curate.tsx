@@ -0,0 +1,252 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { HighlightedWord } from '@/components/HighlightedWord';
+import { PronunciationSettings } from '@/components/PronunciationSettings';
+import { useDictionary } from '@/hooks/useDictionary';
+import { useDictionarySettings } from '@/hooks/useDictionarySettings';
+import { useDictionaryOverrides } from '@/hooks/useDictionaryOverrides';
+import { applyDictionaryOverrides, findPhonemeCodesForWord, getWordInfo, isLegacyDictionary } from '@/lib/dictionaryService';
+import { DictionaryOverridesFile, describeOverride } from '@/lib/dictionaryOverrides';
+import { describeWordInfo, wordKey } from '@/lib/dictionaryWords';
+import { alignPhonemes, renderHighlight } from '@/lib/graphemeAlignment';
+import { PHONEMES, Phoneme, phonemeInfo } from '@/lib/mnemonicSystems';
+import { ArrowLeft, ArrowUp, ArrowDown, Ban, Download, Loader2, Plus, Trash2, X } from 'lucide-react';
+
+const isPhonemeCode = (text: string) =>
+  text.length > 0 && text.split('').every(char => (PHONEMES as readonly string[]).includes(char));
+
+/**
+ * Page for maintainers to curate the dictionary: browse a phoneme code's
+ * words, reorder, ban and add words, and export the edits as an overrides
+ * file for the generator. Edits preview live in the search results.
+ */
+const Curate = () => {
+  const [query, setQuery] = useState('');
+  const [code, setCode] = useState<string | null>(null);
+  const [newWord, setNewWord] = useState('');
+
+  const { locale, accent, setLocale, setAccent } = useDictionarySettings();
+  const { dictionary, isLoading, error } = useDictionary(locale, accent, setLocale);
+  const { overrides, addOverride, moveWord: moveOverrideWord, removeOverride, clearOverrides } = useDictionaryOverrides();
+
+  const preview = useMemo(
+    () => (dictionary ? applyDictionaryOverrides(dictionary, overrides, locale) : null),
+    [dictionary, overrides, locale]
+  );
+
+  // A query can be a phoneme code to open, or a word whose codes to list
+  const trimmed = query.trim();
+  const queryIsCode = isPhonemeCode(trimmed) && Boolean(preview?.[trimmed]);
+  const wordCodes = preview && trimmed ? findPhonemeCodesForWord(preview, trimmed) : [];
+  const words = code && preview ? preview[code] ?? [] : [];
+  // Legacy dictionaries stand in for each sound group with its first phoneme (e.g. "k" for a "g"),
+  // so edits made under their codes would land on the wrong codes once it is regenerated
+  const canEdit = !(dictionary && isLegacyDictionary(dictionary));
+  const canExport = overrides.length > 0 && canEdit;
+
+  const moveWord = (index: number, offset: number) => {
+    if (!code || !canEdit) return;
+    moveOverrideWord(code, words, index, offset, locale);
+  };
+
+  const handleAdd = () => {
+    const word = newWord.trim();
+    if (!code || !word || !canEdit) return;
+    // Capitalise the coded letters, as the generator does for listed words
+    const spans = alignPhonemes(word, code);
+    addOverride({ action: 'add', word: spans ? renderHighlight(word, spans) : word, code, locale });
+    setNewWord('');
+  };
+
+  const handleExport = () => {
+    if (!canExport) return;
+    const file: DictionaryOverridesFile = { overrides };
+    const blob = new Blob([JSON.stringify(file, null, 2) + '\n'], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'dictionary-overrides.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-muted/30">
+      <header className="sticky top-0 z-10 bg-background/95 backdrop-blur border-b">
+        <div className="container max-w-2xl mx-auto px-4 py-4 flex items-center gap-3">
+          <Button variant="ghost" size="icon" asChild>
+            <Link to="/" title="Back to search">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-xl font-bold">Curate Dictionary</h1>
+            <p className="text-xs text-muted-foreground">Edits preview in search and export for the generator</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="container max-w-2xl mx-auto px-4 py-6 space-y-6">
+        <PronunciationSettings
+          locale={locale}
+          accent={accent}
+          onLocaleChange={setLocale}
+          onAccentChange={setAccent}
+        />
+
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Word or phoneme code (e.g. door, drm)"
+        />
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12 text-muted-foreground">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            <span>Loading dictionary...</span>
+          </div>
+        ) : error ? (
+          <div className="text-center py-12 text-destructive">
+            <p>Failed to load dictionary</p>
+            <p className="text-sm text-muted-foreground">{error}</p>
+          </div>
+        ) : (
+          trimmed && (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              {queryIsCode || wordCodes.length > 0 ? (
+                <>
+                  <span className="text-muted-foreground">Codes:</span>
+                  {[...new Set([...(queryIsCode ? [trimmed] : []), ...wordCodes])].map(c => (
+                    <Button
+                      key={c}
+                      variant={c === code ? 'default' : 'outline'}
+                      size="sm"
+                      className="font-mono h-7"
+                      onClick={() => setCode(c)}
+                    >
+                      {c}
+                    </Button>
+                  ))}
+                </>
+              ) : (
+                <span className="text-muted-foreground">No code or listed word matches "{trimmed}".</span>
+              )}
+            </div>
+          )
+        )}
+
+        {code && preview && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-lg font-mono">{code}</CardTitle>
+              <p className="text-xs text-muted-foreground">
+                {code.split('').map(char => phonemeInfo[char as Phoneme].label).join(' · ')}
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {words.length === 0 && (
+                <p className="text-sm text-muted-foreground">No words listed under this code.</p>
+              )}
+              {words.map((word, index) => {
+                const info = getWordInfo(preview, word);
+                return (
+                  <div key={word} className="flex items-center gap-2">
+                    <span className="w-6 text-right text-xs text-muted-foreground">{index + 1}</span>
+                    <div className="flex-1 min-w-0">
+                      <HighlightedWord word={word} className="text-base" />
+                      {info && (
+                        <p className="text-xs text-muted-foreground truncate">
+                          {describeWordInfo(info)}
+                          {info.score !== undefined && ` · score ${info.score}`}
+                        </p>
+                      )}
+                    </div>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" disabled={!canEdit || index === 0} onClick={() => moveWord(index, -1)}>
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" disabled={!canEdit || index === words.length - 1} onClick={() => moveWord(index, 1)}>
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-destructive hover:text-destructive"
+                      title="Ban from this code"
+                      disabled={!canEdit}
+                      onClick={() => addOverride({ action: 'ban', word: wordKey(word), code, locale })}
+                    >
+                      <Ban className="h-4 w-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+              <div className="flex gap-2 pt-2">
+                <Input
+                  value={newWord}
+                  onChange={(e) => setNewWord(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                  placeholder="Add a word to this code"
+                  disabled={!canEdit}
+                />
+                <Button onClick={handleAdd} disabled={!canEdit || !newWord.trim()} className="gap-1">
+                  <Plus className="h-4 w-4" />
+                  Add
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader className="pb-2">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-lg flex items-center gap-2">
+                Edits
+                <Badge variant="secondary">{overrides.length}</Badge>
+              </CardTitle>
+              <div className="flex gap-1">
+                <Button variant="outline" size="sm" className="gap-1" disabled={!canExport} onClick={handleExport}>
+                  <Download className="h-4 w-4" />
+                  Export
+                </Button>
+                <Button variant="ghost" size="sm" className="gap-1" disabled={overrides.length === 0} onClick={clearOverrides}>
+                  <Trash2 className="h-4 w-4" />
+                  Clear
+                </Button>
+              </div>
+            </div>
+            {!canEdit ? (
+              <p className="text-xs text-warning">
+                The loaded dictionary uses legacy sound-group codes, so it can't be edited
+                until it is regenerated.
+              </p>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                Save the export as dictionary-overrides.json next to dict-generator.ts; the next run applies it.
+              </p>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-1">
+            {overrides.length === 0 && (
+              <p className="text-sm text-muted-foreground">No edits yet.</p>
+            )}
+            {overrides.map((override, index) => (
+              <div key={index} className="flex items-center justify-between gap-2 text-sm">
+                <span className="font-mono text-xs">{describeOverride(override)}</span>
+                <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => removeOverride(index)}>
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default Curate;
@@ -0,0 +1,235 @@
+import { useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { DigitSequence } from '@/components/DigitSequence';
+import { HighlightedWord } from '@/components/HighlightedWord';
+import { ModeToggle } from '@/components/ModeToggle';
+import { PronunciationSettings } from '@/components/PronunciationSettings';
+import { useDictionary } from '@/hooks/useDictionary';
+import { useCustomSystems } from '@/hooks/useCustomSystems';
+import { useDictionarySettings } from '@/hooks/useDictionarySettings';
+import { useDictionaryOverrides } from '@/hooks/useDictionaryOverrides';
+import { useWordLists } from '@/hooks/useWordLists';
+import { useFamilySafeMode } from '@/hooks/useFamilySafeMode';
+import { applyDictionaryOverrides, findPhonemeCodesForWord, getDigitCoverage, getDigitIndex, isLegacyDictionary } from '@/lib/dictionaryService';
+import { DEFAULT_FILTERS, applyResultFilters } from '@/lib/resultFilters';
+import { MnemonicSystem, Phoneme, getSystemConfig, mnemonicSystems, phonemeInfo } from '@/lib/mnemonicSystems';
+import { ArrowLeft, Loader2, Search } from 'lucide-react';
+
+const PAGE_SIZE = 50;
+const WORDS_PER_ROW = 4;
+
+/**
+ * Page for browsing the dictionary by digit sequence for a system: how many
+ * sequences of each length have a word, the words for each sequence, and the
+ * digits of any word. Sequences link back to the search tab.
+ */
+const Dictionary = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [query, setQuery] = useState('');
+  const [shown, setShown] = useState(PAGE_SIZE);
+
+  const { customSystems, saveCustomSystem, removeCustomSystem } = useCustomSystems();
+  const requestedSystem = searchParams.get('system');
+  const system: MnemonicSystem = requestedSystem && mnemonicSystems[requestedSystem] ? requestedSystem : 'do-re-major';
+  const setSystem = (id: MnemonicSystem) => setSearchParams({ system: id }, { replace: true });
+
+  const { locale, accent, setLocale, setAccent } = useDictionarySettings();
+  const { dictionary: loadedDictionary, isLoading, error } = useDictionary(locale, accent, setLocale);
+  const { overrides } = useDictionaryOverrides();
+  const { wordLists } = useWordLists();
+  const { familySafe } = useFamilySafeMode();
+
+  // Browse what search would offer: local edits, the blocklist and family-safe mode apply
+  const dictionary = useMemo(() => {
+    if (!loadedDictionary) return null;
+    const edited = overrides.length > 0 ? applyDictionaryOverrides(loadedDictionary, overrides, locale) : loadedDictionary;
+    return applyResultFilters(edited, { ...DEFAULT_FILTERS, blockedWords: wordLists.blocked, familySafe });
+  }, [loadedDictionary, overrides, locale, wordLists.blocked, familySafe]);
+  const legacyDictionary = dictionary ? isLegacyDictionary(dictionary) : false;
+
+  const index = useMemo(() => (dictionary ? getDigitIndex(dictionary, system) : null), [dictionary, system]);
+  const coverage = useMemo(() => (dictionary ? getDigitCoverage(dictionary, system) : []), [dictionary, system]);
+  // Shortest first, then in numeric order
+  const sortedDigits = useMemo(
+    () => (index ? [...index.keys()].sort((a, b) => a.length - b.length || a.localeCompare(b)) : []),
+    [index]
+  );
+
+  // A query of digits filters sequences by prefix; anything else is a word to look up
+  const trimmed = query.trim();
+  const queryIsDigits = /^\d+$/.test(trimmed);
+  const matchingDigits = queryIsDigits ? sortedDigits.filter(digits => digits.startsWith(trimmed)) : sortedDigits;
+  const phonemeToDigit = getSystemConfig(system).phonemeToDigit;
+  const wordCodes = dictionary && trimmed && !queryIsDigits ? findPhonemeCodesForWord(dictionary, trimmed) : [];
+
+  const handleQueryChange = (value: string) => {
+    setQuery(value);
+    setShown(PAGE_SIZE);
+  };
+
+  const searchLink = (digits: string) => `/?${new URLSearchParams({ digits, system })}`;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-muted/30">
+      <header className="sticky top-0 z-10 bg-background/95 backdrop-blur border-b">
+        <div className="container max-w-2xl mx-auto px-4 py-4 flex items-center gap-3">
+          <Button variant="ghost" size="icon" asChild>
+            <Link to="/" title="Back to search">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-xl font-bold">Dictionary</h1>
+            <p className="text-xs text-muted-foreground">Every digit sequence with a word, for the current system</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="container max-w-2xl mx-auto px-4 py-6 space-y-6">
+        <ModeToggle
+          system={system}
+          onSystemChange={setSystem}
+          customSystems={customSystems}
+          onSaveCustomSystem={saveCustomSystem}
+          onRemoveCustomSystem={removeCustomSystem}
+          legacyDictionary={legacyDictionary}
+        />
+        <PronunciationSettings
+          locale={locale}
+          accent={accent}
+          onLocaleChange={setLocale}
+          onAccentChange={setAccent}
+        />
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12 text-muted-foreground">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            <span>Loading dictionary...</span>
+          </div>
+        ) : error ? (
+          <div className="text-center py-12 text-destructive">
+            <p>Failed to load dictionary</p>
+            <p className="text-sm text-muted-foreground">{error}</p>
+          </div>
+        ) : (
+          <>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg">Coverage</CardTitle>
+                <p className="text-xs text-muted-foreground">
+                  Digit sequences of each length that a single word can encode
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {coverage.map(({ length, covered, possible }) => (
+                  <div key={length} className="flex items-center gap-3 text-sm">
+                    <span className="w-16 text-muted-foreground">{length} {length === 1 ? 'digit' : 'digits'}</span>
+                    <Progress value={(covered / possible) * 100} className="h-2 flex-1" />
+                    <span className="w-36 text-right font-mono text-xs">
+                      {covered.toLocaleString()} / {possible.toLocaleString()} ({formatPercent(covered / possible)})
+                    </span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Input
+              value={query}
+              onChange={(e) => handleQueryChange(e.target.value)}
+              placeholder="Digits or a word (e.g. 142, door)"
+            />
+
+            {trimmed && !queryIsDigits && (
+              <Card>
+                <CardContent className="pt-6 space-y-2">
+                  {wordCodes.length === 0 && (
+                    <p className="text-sm text-muted-foreground">"{trimmed}" is not in the dictionary.</p>
+                  )}
+                  {wordCodes.map(code => {
+                    // A code with a sound the system gives no digit can't encode a number
+                    const encodable = code.split('').every(char => phonemeToDigit[char] !== undefined);
+                    const digits = code.split('').map(char => phonemeToDigit[char] ?? '').join('');
+                    return (
+                      <div key={code} className="flex items-center gap-3">
+                        <span className="font-mono text-sm w-16">{code}</span>
+                        <span className="flex-1 text-xs text-muted-foreground">
+                          {code.split('').map(char => phonemeInfo[char as Phoneme].label).join(' · ')}
+                        </span>
+                        {encodable ? (
+                          <>
+                            <DigitSequence digits={digits} />
+                            <Button variant="outline" size="sm" className="gap-1 h-7" asChild>
+                              <Link to={searchLink(digits)}>
+                                <Search className="h-3 w-3" />
+                                Search
+                              </Link>
+                            </Button>
+                          </>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">No digits in this system</span>
+                        )}
+                      </div>
+                    );
+                  })}
+                </CardContent>
+              </Card>
+            )}
+
+            {index && (!trimmed || queryIsDigits) && (
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-lg">Sequences</CardTitle>
+                  <p className="text-xs text-muted-foreground">
+                    {matchingDigits.length.toLocaleString()} {matchingDigits.length === 1 ? 'sequence' : 'sequences'}
+                    {queryIsDigits && ` starting with ${trimmed}`}
+                  </p>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {matchingDigits.slice(0, shown).map(digits => {
+                    const entry = index.get(digits)!;
+                    return (
+                      <div key={digits} className="flex items-center gap-3">
+                        <Link to={searchLink(digits)} title="Search these digits" className="w-24 shrink-0">
+                          <DigitSequence digits={digits} />
+                        </Link>
+                        <div className="flex-1 min-w-0 flex flex-wrap gap-x-3 text-sm">
+                          {entry.words.slice(0, WORDS_PER_ROW).map(word => (
+                            <HighlightedWord key={word} word={word} />
+                          ))}
+                          {entry.words.length > WORDS_PER_ROW && (
+                            <span className="text-xs text-muted-foreground self-center">
+                              +{entry.words.length - WORDS_PER_ROW}
+                            </span>
+                          )}
+                        </div>
+                        <span className="font-mono text-xs text-muted-foreground">{entry.phonemeCodes.join(', ')}</span>
+                      </div>
+                    );
+                  })}
+                  {matchingDigits.length > shown && (
+                    <Button variant="ghost" size="sm" className="w-full" onClick={() => setShown(shown + PAGE_SIZE)}>
+                      Show more
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+// Small shares of the long sequences still show as something above zero
+function formatPercent(share: number): string {
+  if (share === 0) return '0%';
+  if (share < 0.001) return '<0.1%';
+  return `${(share * 100).toFixed(1)}%`;
+}
+
+export default Dictionary;
@@ -1,24 +1,102 @@
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { NumberInput } from '@/components/NumberInput';
 import { ModeToggle } from '@/components/ModeToggle';
+import { PronunciationSettings } from '@/components/PronunciationSettings';
+import { ResultFiltersPanel } from '@/components/ResultFiltersPanel';
+import { FamilySafeSettings } from '@/components/FamilySafeSettings';
 import { MappingChart } from '@/components/MappingChart';
 import { SplitResultsList } from '@/components/SplitResultsList';
+import { LongNumberStory } from '@/components/LongNumberStory';
 import { FavoritesList } from '@/components/FavoritesList';
+import { WordListsCard } from '@/components/WordListsCard';
+import { PhraseDecoder } from '@/components/PhraseDecoder';
+import { MnemonicChecker } from '@/components/MnemonicChecker';
 import { HowItWorksModal } from '@/components/HowItWorksModal';
 import { useFavorites } from '@/hooks/useFavorites';
 import { useDictionary } from '@/hooks/useDictionary';
-import { MnemonicSystem } from '@/lib/mnemonicSystems';
-import { Music, Search, Heart, Loader2 } from 'lucide-react';
+import { useCustomSystems } from '@/hooks/useCustomSystems';
+import { useDictionarySettings } from '@/hooks/useDictionarySettings';
+import { useDictionaryOverrides } from '@/hooks/useDictionaryOverrides';
+import { useResultFilters } from '@/hooks/useResultFilters';
+import { useWordLists } from '@/hooks/useWordLists';
+import { useFamilySafeMode } from '@/hooks/useFamilySafeMode';
+import { MnemonicSystem, mnemonicSystems } from '@/lib/mnemonicSystems';
+import { applyDictionaryOverrides, hasWordInfo, isLegacyDictionary } from '@/lib/dictionaryService';
+import { SavedDataFile } from '@/lib/savedData';
+import { stripWordMarkers, wordKey } from '@/lib/dictionaryWords';
+import { getSensitiveCategory } from '@/lib/sensitiveWords';
+import { LONG_NUMBER_MIN_DIGITS } from '@/lib/longNumberStory';
+import { WordLock, addLock, shiftLocks } from '@/lib/wordLocks';
+import { toast } from 'sonner';
+import { Music, Search, Heart, Loader2, Hash } from 'lucide-react';
 
 const Index = () => {
   const [digits, setDigits] = useState('');
   const [system, setSystem] = useState<MnemonicSystem>('do-re-major');
   const [activeTab, setActiveTab] = useState('search');
+  const [locks, setLocks] = useState<WordLock[]>([]);
 
-  const { dictionary, isLoading: isDictionaryLoading, error: dictionaryError } = useDictionary();
-  const { favorites, addFavorite, addCustomPeg, removeFavorite, isFavorite, getCustomPegs } = useFavorites();
-  const customPegs = getCustomPegs(system);
+  const { customSystems, saveCustomSystem, removeCustomSystem, importCustomSystems } = useCustomSystems();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // Links from the dictionary browser open a search: /?digits=142&system=major
+  useEffect(() => {
+    const linkedDigits = searchParams.get('digits');
+    if (linkedDigits === null) return;
+    const linkedSystem = searchParams.get('system');
+    setDigits(linkedDigits.replace(/\D/g, ''));
+    setLocks([]);
+    if (linkedSystem && mnemonicSystems[linkedSystem]) setSystem(linkedSystem);
+    setActiveTab('search');
+    setSearchParams({}, { replace: true });
+  }, [searchParams, setSearchParams]);
+
+  const { locale, accent, setLocale, setAccent } = useDictionarySettings();
+  const { dictionary: loadedDictionary, isLoading: isDictionaryLoading, error: dictionaryError } = useDictionary(locale, accent, setLocale);
+  const { overrides } = useDictionaryOverrides();
+  // Preview local curation edits until the dictionary is regenerated with them
+  const dictionary = useMemo(
+    () => (loadedDictionary && overrides.length > 0 ? applyDictionaryOverrides(loadedDictionary, overrides, locale) : loadedDictionary),
+    [loadedDictionary, overrides, locale]
+  );
+  const legacyDictionary = dictionary ? isLegacyDictionary(dictionary) : false;
+  const { filters, updateFilters, resetFilters } = useResultFilters();
+  const { wordLists, blockWord, allowWord, unlistWord, replaceWordLists } = useWordLists();
+  const { familySafe, isLocked, setFamilySafe, lock, unlock } = useFamilySafeMode();
+  // The personal lists and family-safe mode apply alongside the filter settings
+  const activeFilters = useMemo(
+    () => ({ ...filters, blockedWords: wordLists.blocked, allowedWords: wordLists.allowed, familySafe }),
+    [filters, wordLists, familySafe]
+  );
+  const { favorites, addFavorite, addCustomPeg, removeFavorite, isFavorite, importFavorites, getCustomPegs } = useFavorites();
+  const allCustomPegs = useMemo(() => getCustomPegs(system), [getCustomPegs, system]);
+  // Family-safe mode covers the user's own pegs too
+  const customPegs = useMemo(
+    () => (familySafe
+      ? allCustomPegs.filter(peg => !peg.words.some(word => getSensitiveCategory(wordKey(word))))
+      : allCustomPegs),
+    [allCustomPegs, familySafe]
+  );
+
+  const handleBlock = (word: string) => {
+    blockWord(word);
+    toast.success(`Blocked "${stripWordMarkers(word).toLowerCase()}"`, {
+      action: { label: 'Undo', onClick: () => unlistWord(word) },
+    });
+  };
+
+  // Imported data is merged into the current data; systems first, so favourites saved under them resolve
+  const handleImport = (data: SavedDataFile) => {
+    importCustomSystems(data.customSystems);
+    importFavorites(data.favorites);
+    replaceWordLists({
+      blocked: [...new Set([...wordLists.blocked, ...data.wordLists.blocked])],
+      allowed: [...new Set([...wordLists.allowed, ...data.wordLists.allowed])]
+        .filter(w => !data.wordLists.blocked.includes(w) && !wordLists.blocked.includes(w)),
+    });
+  };
 
   // Handler for favoriting individual segment matches
   const handleSegmentFavorite = (segmentDigits: string, word: string) => {
@@ -35,10 +113,36 @@ const Index = () => {
     }
   };
 
+  // Invented words become ordinary custom pegs, matched first from then on
+  const handleSavePeg = (segmentDigits: string, word: string) => {
+    const peg = wordKey(word);
+    addCustomPeg(segmentDigits, peg, system);
+    toast.success(`Saved "${peg}" as a custom peg for ${segmentDigits}`);
+  };
+
   const checkSegmentFavorite = (segmentDigits: string, word: string) => {
     return isFavorite(segmentDigits, [word], system);
   };
 
+  // Locked words follow their digits while the number is edited around them
+  const handleDigitsChange = (newDigits: string) => {
+    setLocks(previous => shiftLocks(previous, digits, newDigits));
+    setDigits(newDigits);
+  };
+
+  const handleLock = (start: number, lockDigits: string, word: string) => {
+    setLocks(previous => addLock(previous, { start, digits: lockDigits, word }));
+  };
+
+  const handleUnlock = (start: number) => {
+    setLocks(previous => previous.filter(lock => lock.start !== start));
+  };
+
+  const handleDecodedSearch = (decodedDigits: string) => {
+    handleDigitsChange(decodedDigits);
+    setActiveTab('search');
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-background to-muted/30">
       {/* Header */}
@@ -62,11 +166,15 @@ const Index = () => {
       {/* Main Content */}
       <main className="container max-w-2xl mx-auto px-4 py-6">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="search" className="gap-2">
               <Search className="h-4 w-4" />
               Search
             </TabsTrigger>
+            <TabsTrigger value="decode" className="gap-2">
+              <Hash className="h-4 w-4" />
+              Decode
+            </TabsTrigger>
             <TabsTrigger value="saved" className="gap-2">
               <Heart className="h-4 w-4" />
               Saved
@@ -83,14 +191,46 @@ const Index = () => {
             <section className="space-y-4">
               <NumberInput
                 value={digits}
-                onChange={setDigits}
+                onChange={handleDigitsChange}
                 placeholder="Enter numbers to memorise..."
               />
-              <ModeToggle system={system} onSystemChange={setSystem} />
+              <ModeToggle
+                system={system}
+                onSystemChange={setSystem}
+                customSystems={customSystems}
+                onSaveCustomSystem={saveCustomSystem}
+                onRemoveCustomSystem={removeCustomSystem}
+                legacyDictionary={legacyDictionary}
+              />
+              <PronunciationSettings
+                locale={locale}
+                accent={accent}
+                onLocaleChange={setLocale}
+                onAccentChange={setAccent}
+              />
+              <ResultFiltersPanel
+                filters={filters}
+                onChange={updateFilters}
+                onReset={resetFilters}
+                hasWordInfo={dictionary ? hasWordInfo(dictionary) : true}
+              />
+              <FamilySafeSettings
+                familySafe={familySafe}
+                isLocked={isLocked}
+                onFamilySafeChange={setFamilySafe}
+                onLock={lock}
+                onUnlock={unlock}
+              />
             </section>
 
             {/* Results */}
-            <section>
+            <section className="space-y-3">
+              {overrides.length > 0 && !isDictionaryLoading && (
+                <p className="text-xs text-center text-muted-foreground">
+                  Previewing {overrides.length} local dictionary {overrides.length === 1 ? 'edit' : 'edits'} ·{' '}
+                  <Link to="/curate" className="text-primary underline">Curate</Link>
+                </p>
+              )}
               {isDictionaryLoading ? (
                 <div className="flex items-center justify-center py-12 text-muted-foreground">
                   <Loader2 className="h-6 w-6 animate-spin mr-2" />
@@ -101,29 +241,74 @@ const Index = () => {
                   <p>Failed to load dictionary</p>
                   <p className="text-sm text-muted-foreground">{dictionaryError}</p>
                 </div>
+              ) : digits.length >= LONG_NUMBER_MIN_DIGITS ? (
+                // Too long to split every way: one complete word sequence instead
+                <LongNumberStory
+                  digits={digits}
+                  dictionary={dictionary}
+                  system={system}
+                  customPegs={customPegs}
+                  filters={activeFilters}
+                  locks={locks}
+                  onUnlock={handleUnlock}
+                  onUnlockAll={() => setLocks([])}
+                />
               ) : (
                 <SplitResultsList
                   digits={digits}
                   dictionary={dictionary}
                   system={system}
                   customPegs={customPegs}
+                  filters={activeFilters}
                   onFavorite={handleSegmentFavorite}
                   isFavorite={checkSegmentFavorite}
+                  onBlock={handleBlock}
+                  onSavePeg={handleSavePeg}
+                  locks={locks}
+                  onLock={handleLock}
+                  onUnlock={handleUnlock}
+                  onUnlockAll={() => setLocks([])}
                 />
               )}
             </section>
 
+            {digits && !isDictionaryLoading && !dictionaryError && (
+              <MnemonicChecker digits={digits} system={system} dictionary={dictionary} />
+            )}
+
             {/* Mapping Reference */}
             <MappingChart system={system} />
 
           </TabsContent>
 
-          <TabsContent value="saved" className="mt-0">
+          <TabsContent value="decode" className="space-y-6 mt-0">
+            <ModeToggle
+              system={system}
+              onSystemChange={setSystem}
+              customSystems={customSystems}
+              onSaveCustomSystem={saveCustomSystem}
+              onRemoveCustomSystem={removeCustomSystem}
+              legacyDictionary={legacyDictionary}
+            />
+            <PhraseDecoder system={system} dictionary={dictionary} onSearch={handleDecodedSearch} />
+          </TabsContent>
+
+          <TabsContent value="saved" className="space-y-6 mt-0">
             <FavoritesList
               favorites={favorites}
               onRemove={removeFavorite}
               onAddCustomPeg={addCustomPeg}
               currentSystem={system}
+              dictionary={dictionary}
+            />
+            <WordListsCard
+              wordLists={wordLists}
+              favorites={favorites}
+              customSystems={customSystems}
+              onBlock={blockWord}
+              onAllow={allowWord}
+              onUnlist={unlistWord}
+              onImport={handleImport}
             />
           </TabsContent>
         </Tabs>
@@ -132,6 +317,11 @@ const Index = () => {
       {/* Footer */}
       <footer className="container max-w-2xl mx-auto px-4 py-6 text-center text-xs text-muted-foreground">
         <p>Tip: Use memorable words to recall important numbers like PINs and dates!</p>
+        <p className="mt-2">
+          <Link to={`/dictionary?${new URLSearchParams({ system })}`} className="underline hover:text-foreground">Browse the dictionary</Link>
+          {' · '}
+          <Link to="/curate" className="underline hover:text-foreground">Curate the dictionary</Link>
+        </p>
       </footer>
     </div>
   );
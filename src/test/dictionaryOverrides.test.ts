@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DictionaryOverride,
+  applyOverridesToWordLists,
+  describeOverride,
+  getOverridesForLocale,
+  moveWordPins,
+  parseOverrides,
+} from '@/lib/dictionaryOverrides';
+
+const wordLists = {
+  'd': ['DaY', 'DoeR', 'TeA'],
+  'dm': ['DooM', 'TiMe'],
+};
+
+describe('getOverridesForLocale', () => {
+  it('orders bans, additions, boosts then pins, keeping file order within an action', () => {
+    const overrides: DictionaryOverride[] = [
+      { action: 'pin', word: 'tea', code: 'd', position: 1 },
+      { action: 'boost', word: 'day', amount: 2 },
+      { action: 'add', word: 'dye', code: 'd' },
+      { action: 'ban', word: 'doer' },
+      { action: 'add', word: 'toe', code: 'd' },
+    ];
+    expect(getOverridesForLocale(overrides, 'en_GB').map(o => `${o.action} ${o.word}`)).toEqual([
+      'ban doer', 'add dye', 'add toe', 'boost day', 'pin tea',
+    ]);
+  });
+
+  it('skips overrides for other locales', () => {
+    const overrides: DictionaryOverride[] = [
+      { action: 'ban', word: 'day', locale: 'en_US' },
+      { action: 'ban', word: 'tea', locale: 'en_GB' },
+      { action: 'ban', word: 'doom' },
+    ];
+    expect(getOverridesForLocale(overrides, 'en_GB').map(o => o.word)).toEqual(['tea', 'doom']);
+  });
+});
+
+describe('applyOverridesToWordLists', () => {
+  it('pins an added word after it is added, whatever the file order', () => {
+    const result = applyOverridesToWordLists(wordLists, [
+      { action: 'pin', word: 'dye', code: 'd', position: 1 },
+      { action: 'add', word: 'dye', code: 'd' },
+    ], 'en_GB');
+    expect(result['d']).toEqual(['dye', 'DaY', 'DoeR', 'TeA']);
+  });
+
+  it('bans before pinning, so a pinned position counts only kept words', () => {
+    const result = applyOverridesToWordLists(wordLists, [
+      { action: 'pin', word: 'tea', code: 'd', position: 2 },
+      { action: 'ban', word: 'day' },
+    ], 'en_GB');
+    expect(result['d']).toEqual(['DoeR', 'TeA']);
+  });
+
+  it('bans from one code or every code, dropping emptied codes', () => {
+    const fromCode = applyOverridesToWordLists(wordLists, [{ action: 'ban', word: 'time', code: 'dm' }], 'en_GB');
+    expect(fromCode['dm']).toEqual(['DooM']);
+
+    const everywhere = applyOverridesToWordLists({ 'd': ['DaY'], 'dm': ['DaY'] }, [{ action: 'ban', word: 'day' }], 'en_GB');
+    expect(everywhere).toEqual({});
+  });
+
+  it('ignores boosts, pins of unlisted words and duplicate additions', () => {
+    const result = applyOverridesToWordLists(wordLists, [
+      { action: 'boost', word: 'tea', amount: 5 },
+      { action: 'pin', word: 'dye', code: 'd', position: 1 },
+      { action: 'add', word: 'day', code: 'd' },
+    ], 'en_GB');
+    expect(result).toEqual(wordLists);
+  });
+
+  it('shares unchanged lists with the input', () => {
+    const result = applyOverridesToWordLists(wordLists, [{ action: 'ban', word: 'doom' }], 'en_GB');
+    expect(result['d']).toBe(wordLists['d']);
+    expect(result['dm']).toEqual(['TiMe']);
+  });
+});
+
+describe('moveWordPins', () => {
+  const lists = { 'd': ['a', 'b', 'c', 'd', 'e'] };
+
+  // Apply each move to the list as it is shown after the moves before it
+  const replay = (moves: [word: string, offset: number][]) => {
+    let overrides: DictionaryOverride[] = [];
+    for (const [word, offset] of moves) {
+      const shown = applyOverridesToWordLists(lists, overrides, 'en_GB')['d'];
+      overrides = moveWordPins(overrides, 'd', shown, shown.indexOf(word), offset, 'en_GB');
+    }
+    return { overrides, shown: applyOverridesToWordLists(lists, overrides, 'en_GB')['d'] };
+  };
+
+  it('keeps earlier moves in place over a run of moves', () => {
+    const { shown } = replay([['d', -1], ['d', -1], ['c', -1], ['d', 1]]);
+    expect(shown).toEqual(['a', 'c', 'd', 'b', 'e']);
+  });
+
+  it('pins only the words up to the last moved or pinned position', () => {
+    const { overrides } = replay([['c', -1], ['a', 1]]);
+    expect(overrides.map(o => o.action === 'pin' && `${o.word}@${o.position}`)).toEqual(['c@1', 'a@2', 'b@3']);
+  });
+
+  it('leaves other edits alone', () => {
+    const ban: DictionaryOverride = { action: 'ban', word: 'x', code: 'd', locale: 'en_GB' };
+    const otherCode: DictionaryOverride = { action: 'pin', word: 'y', code: 'dm', position: 1, locale: 'en_GB' };
+    const result = moveWordPins([ban, otherCode], 'd', ['a', 'b'], 1, -1, 'en_GB');
+    expect(result.slice(0, 2)).toEqual([ban, otherCode]);
+  });
+});
+
+describe('parseOverrides', () => {
+  it('trims words and accepts valid entries', () => {
+    expect(parseOverrides({ overrides: [{ action: 'add', word: ' dye ', code: 'd' }] }))
+      .toEqual([{ action: 'add', word: 'dye', code: 'd' }]);
+  });
+
+  it('names the first invalid entry', () => {
+    expect(() => parseOverrides({})).toThrow('"overrides" array');
+    expect(() => parseOverrides({ overrides: [{ action: 'ban', word: 'day' }, { action: 'drop', word: 'tea' }] }))
+      .toThrow('Override 2 has unknown action "drop"');
+    expect(() => parseOverrides({ overrides: [{ action: 'add', word: 'dye', code: 'D' }] }))
+      .toThrow('Override 1 needs a "code"');
+    expect(() => parseOverrides({ overrides: [{ action: 'pin', word: 'dye', code: 'd', position: 0 }] }))
+      .toThrow('"position" of 1 or more');
+  });
+});
+
+describe('describeOverride', () => {
+  it('describes each action', () => {
+    expect(describeOverride({ action: 'pin', word: 'door', code: 'd', position: 1 })).toBe('pin "door" at 1 in d');
+    expect(describeOverride({ action: 'ban', word: 'day', locale: 'en_US' })).toBe('ban "day" [en_US]');
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { generateViableSplits, splitWeight } from '@/lib/digitSplitter';
+
+describe('generateViableSplits', () => {
+  it('only generates splits whose parts are all viable, lightest first', () => {
+    const viable = new Set(['1', '12', '123', '34', '4', '234']);
+    const splits = generateViableSplits('1234', part => viable.has(part));
+    expect(splits.map(split => split.pattern)).toEqual(['12+34', '1+234', '123+4']);
+    for (let i = 1; i < splits.length; i++) {
+      expect(splitWeight(splits[i].parts)).toBeGreaterThanOrEqual(splitWeight(splits[i - 1].parts));
+    }
+  });
+
+  it('has no limit on the number of parts', () => {
+    const splits = generateViableSplits('1212121212', part => part === '12');
+    expect(splits).toEqual([{ parts: ['12', '12', '12', '12', '12'], pattern: '12+12+12+12+12' }]);
+  });
+
+  it('returns nothing when no split is viable', () => {
+    expect(generateViableSplits('1234', part => part === '12')).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { bench, describe } from 'vitest';
+import { findOptimalCombinations } from '@/lib/dijkstraWordMatcher';
+import { Dictionary, convertBridgeDictionary, findWordsForDigits } from '@/lib/dictionaryService';
+import { MnemonicSystem } from '@/lib/mnemonicSystems';
+
+// Run with `npm run bench`
+const file = path.resolve(__dirname, '../../public/dictionary-en_GB.json');
+const { _metadata, ...bridgeDictionary } = JSON.parse(readFileSync(file, 'utf8'));
+const dictionary = convertBridgeDictionary(bridgeDictionary);
+
+const PI = '31415926535897932384';
+
+// The matcher before the binary heap: re-sorts the whole queue on every pop,
+// copies the path into every node and can't tell when it has the best K
+function sortingMatcher(targetDigits: string, dictionary: Dictionary, system: MnemonicSystem, maxResults = 50) {
+  type Node = { position: number; weight: number; words: string[] };
+  const weightOf = (length: number) => (length === 1 ? 10 : length === 2 ? 3 : 1);
+  const wordMap = new Map<number, { word: string; length: number; weight: number }[]>();
+  for (let start = 0; start < targetDigits.length; start++) {
+    const matches = [];
+    for (let len = 1; len <= targetDigits.length - start; len++) {
+      for (const word of findWordsForDigits(dictionary, targetDigits.slice(start, start + len), system).slice(0, 15)) {
+        matches.push({ word, length: len, weight: weightOf(len) });
+      }
+    }
+    wordMap.set(start, matches);
+  }
+
+  const results: string[][] = [];
+  const queue: Node[] = [{ position: 0, weight: 0, words: [] }];
+  const bestWeight = new Map<number, number>([[0, 0]]);
+  while (queue.length > 0 && results.length < maxResults) {
+    queue.sort((a, b) => a.weight - b.weight);
+    const current = queue.shift()!;
+    if (current.position === targetDigits.length) {
+      results.push(current.words);
+      continue;
+    }
+    for (const match of wordMap.get(current.position)!) {
+      const position = current.position + match.length;
+      const weight = current.weight + match.weight;
+      const best = bestWeight.get(position);
+      if (best !== undefined && weight > best + 5) continue;
+      if (best === undefined || weight < best) bestWeight.set(position, weight);
+      queue.push({ position, weight, words: [...current.words, match.word] });
+    }
+  }
+  return results;
+}
+
+// The sorting matcher takes seconds from 12 digits and doesn't finish 16, so it only runs the short ones
+for (const length of [8, 12]) {
+  describe(`${length} digits`, () => {
+    const digits = PI.slice(0, length);
+    bench('binary heap', () => {
+      findOptimalCombinations(digits, dictionary, 'major', []);
+    });
+    bench('sorted array', () => {
+      sortingMatcher(digits, dictionary, 'major');
+    }, { iterations: 2, time: 0 });
+  });
+}
+
+for (const length of [16, 20]) {
+  describe(`${length} digits`, () => {
+    const digits = PI.slice(0, length);
+    bench('binary heap', () => {
+      findOptimalCombinations(digits, dictionary, 'major', []);
+    });
+  });
+}
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { findOptimalCombinations } from '@/lib/dijkstraWordMatcher';
+import { customPeg, majorDictionary as dictionary } from './fixtures';
+
+describe('findOptimalCombinations', () => {
+  it('finds every combination, lightest first', () => {
+    const results = findOptimalCombinations('123', dictionary, 'major', [], 100);
+    // 1+2+3: 2·1·2, 12+3: 2·2, 1+23: 2·1, 123: 1
+    expect(results).toHaveLength(11);
+    expect(results[0].words).toEqual(['TaNNeM']);
+    for (let i = 1; i < results.length; i++) {
+      expect(results[i].totalWeight).toBeGreaterThanOrEqual(results[i - 1].totalWeight);
+    }
+  });
+
+  it('returns the lightest combinations as the top K', () => {
+    const all = findOptimalCombinations('123', dictionary, 'major', [], 100);
+    const top = findOptimalCombinations('123', dictionary, 'major', [], 4);
+    expect(top).toEqual(all.slice(0, 4));
+  });
+
+  it('prefers custom pegs and skips positions nothing covers', () => {
+    const pegs = [customPeg('12', 'TuNa')];
+    const results = findOptimalCombinations('123', dictionary, 'major', pegs, 100);
+    expect(results.find(r => r.isCustomPeg)?.words).toEqual(['TuNa', 'Ma']);
+    expect(findOptimalCombinations('129', dictionary, 'major', [], 100)).toEqual([]);
+  });
+
+  it('solves only the digits around locked words', () => {
+    const locks = [{ start: 0, digits: '12', word: 'TuNa' }];
+    const results = findOptimalCombinations('123', dictionary, 'major', [], 100, undefined, undefined, locks);
+    expect(results.map(r => r.words)).toEqual([['TuNa', 'Ma'], ['TuNa', 'Me']]);
+  });
+});
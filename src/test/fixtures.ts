@@ -0,0 +1,16 @@
+import { Dictionary } from '@/lib/dictionaryService';
+import { Favorite } from '@/hooks/useFavorites';
+
+// Shared by the matcher tests. Major system: t = 1, n = 2, m = 3
+export const majorDictionary: Dictionary = {
+  t: ['Tea', 'Toe'],
+  n: ['Nay'],
+  m: ['Ma', 'Me'],
+  tn: ['TiN', 'TeN'],
+  nm: ['NaMe'],
+  tnm: ['TaNNeM'],
+};
+
+export function customPeg(digits: string, word: string): Favorite {
+  return { id: `peg-${digits}-${word}`, digits, words: [word], system: 'major', createdAt: 0, isCustomPeg: true };
+}
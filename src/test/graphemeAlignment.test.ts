@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { alignPhonemes, countHighlightedSpans, renderHighlight } from '@/lib/graphemeAlignment';
+
+const highlight = (word: string, phonemeCode: string) => {
+  const spans = alignPhonemes(word, phonemeCode);
+  return spans && renderHighlight(word, spans);
+};
+
+describe('alignPhonemes', () => {
+  it('gives each sound the letters that spell it', () => {
+    expect(alignPhonemes('lamb', 'lm')).toEqual([{ start: 0, end: 1 }, { start: 2, end: 4 }]);
+    expect(highlight('dream', 'drm')).toBe('D|ReaM');
+    expect(highlight('phone', 'fn')).toBe('PHoNe');
+  });
+
+  it('leaves silent letters out of the spans', () => {
+    expect(highlight('knight', 'nt')).toBe('KNighT');
+    expect(highlight('thumb', 'Tm')).toBe('THuMB');
+  });
+
+  it('lets one "x" spell two sounds', () => {
+    expect(alignPhonemes('box', 'ks')).toEqual([{ start: 2, end: 3 }, { start: 2, end: 3 }]);
+    expect(highlight('exam', 'gzm')).toBe('eXaM');
+  });
+
+  it('returns null when the letters cannot spell the code', () => {
+    expect(alignPhonemes('cat', 'dt')).toBeNull();
+    expect(alignPhonemes('tea', 'tn')).toBeNull();
+  });
+});
+
+describe('renderHighlight', () => {
+  it('separates touching spans and writes a shared span once', () => {
+    const spans = [{ start: 0, end: 1 }, { start: 3, end: 4 }, { start: 4, end: 5 }, { start: 7, end: 8 }];
+    expect(renderHighlight('bookkeeper', spans)).toBe('BooK|KeePer');
+    expect(renderHighlight('box', [{ start: 0, end: 1 }, { start: 2, end: 3 }, { start: 2, end: 3 }])).toBe('BoX');
+  });
+});
+
+describe('countHighlightedSpans', () => {
+  it('counts runs of capitals, split by lowercase letters or separators', () => {
+    expect(countHighlightedSpans('BooK|KeePer')).toBe(4);
+    expect(countHighlightedSpans('THuMB')).toBe(2);
+    expect(countHighlightedSpans('tea')).toBe(0);
+  });
+});
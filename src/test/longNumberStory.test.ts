@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { buildLongNumberStory } from '@/lib/longNumberStory';
+import { customPeg, majorDictionary as dictionary } from './fixtures';
+
+describe('buildLongNumberStory', () => {
+  it('covers every digit with the lightest word sequence', () => {
+    const chunks = buildLongNumberStory('1231213', dictionary, 'major', []);
+    expect(chunks.map(chunk => chunk.digits)).toEqual(['123', '12', '1', '3']);
+    expect(chunks[1].words).toEqual(['TiN', 'TeN']);
+    expect(chunks.map(chunk => chunk.start)).toEqual([0, 3, 5, 6]);
+  });
+
+  it('keeps digits no word covers, and puts custom pegs first', () => {
+    const chunks = buildLongNumberStory('912', dictionary, 'major', [customPeg('12', 'TuNa')]);
+    expect(chunks[0]).toMatchObject({ digits: '9', words: [] });
+    expect(chunks[1]).toMatchObject({ digits: '12', words: ['TuNa', 'TiN', 'TeN'], customPegs: ['TuNa'] });
+  });
+
+  it('handles a thousand digits', () => {
+    const digits = '1234567890'.repeat(100);
+    const chunks = buildLongNumberStory(digits, dictionary, 'major', []);
+    expect(chunks.map(chunk => chunk.digits).join('')).toBe(digits);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { runMatchJob } from '@/workers/matchJob';
+import { startMatchJob } from '@/workers/matcherClient';
+import { MatchRequest, MatcherResponse } from '@/workers/matcherProtocol';
+import { DEFAULT_FILTERS } from '@/lib/resultFilters';
+import { majorDictionary as dictionary } from './fixtures';
+
+// No word for 121, 212 or 1212, so those get inexact rows
+const request: MatchRequest = {
+  id: 1,
+  kind: 'splits',
+  digits: '1212',
+  system: 'major',
+  customPegs: [],
+  filters: DEFAULT_FILTERS,
+  locks: [],
+};
+
+describe('runMatchJob', () => {
+  it('streams the exact split rows, then each inexact row, then finishes', async () => {
+    const responses: MatcherResponse[] = [];
+    await runMatchJob(request, dictionary, response => responses.push(response), () => false);
+    const rowCounts = responses.map(response => (response.type === 'results' ? response.results.length : response.type));
+    expect(rowCounts).toEqual([4, 5, 6, 7, 'done']);
+    const patterns = responses.map(response => (response.type === 'results' ? response.results.map(row => row.pattern) : []));
+    expect(patterns[0]).toEqual(['12+12', '12+1+2', '1+2+12', '1+2+1+2']);
+    expect(patterns[3].slice(4)).toEqual(['121+2', '1+212', '1212']);
+  });
+
+  it('stops between steps once cancelled', async () => {
+    const responses: MatcherResponse[] = [];
+    await runMatchJob(request, dictionary, response => responses.push(response), () => responses.length > 0);
+    expect(responses).toHaveLength(1);
+    expect(responses[0]).toMatchObject({ type: 'results' });
+  });
+
+  it('posts nothing when cancelled before starting', async () => {
+    const responses: MatcherResponse[] = [];
+    await runMatchJob(request, dictionary, response => responses.push(response), () => true);
+    expect(responses).toEqual([]);
+  });
+});
+
+describe('startMatchJob', () => {
+  it('matches on the main thread without worker support', async () => {
+    const response = await new Promise<MatcherResponse>(resolve => {
+      const { id, ...input } = request;
+      startMatchJob({ ...input, dictionary }, response => {
+        if (response.type !== 'results') resolve(response);
+      });
+    });
+    expect(response.type).toBe('done');
+  });
+});
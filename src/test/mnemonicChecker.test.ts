@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { alignDigits, checkMnemonic } from '@/lib/mnemonicChecker';
+
+describe('alignDigits', () => {
+  it('matches equal digits', () => {
+    expect(alignDigits('12', '12', [0, 1])).toEqual([
+      { kind: 'match', digit: '1', wordIndex: 0 },
+      { kind: 'match', digit: '2', wordIndex: 1 },
+    ]);
+  });
+
+  it('keeps digits after a missing one aligned', () => {
+    expect(alignDigits('1234', '134', [0, 1, 1])).toEqual([
+      { kind: 'match', digit: '1', wordIndex: 0 },
+      { kind: 'missing', expected: '2' },
+      { kind: 'match', digit: '3', wordIndex: 1 },
+      { kind: 'match', digit: '4', wordIndex: 1 },
+    ]);
+  });
+
+  it('reports extra and wrong digits with the word they come from', () => {
+    expect(alignDigits('13', '153', [0, 1, 2]).map(d => d.kind)).toEqual(['match', 'extra', 'match']);
+    expect(alignDigits('123', '193', [0, 1, 1])[1]).toEqual({ kind: 'wrong', expected: '2', actual: '9', wordIndex: 1 });
+  });
+
+  it('handles an empty side', () => {
+    expect(alignDigits('12', '', [])).toEqual([
+      { kind: 'missing', expected: '1' },
+      { kind: 'missing', expected: '2' },
+    ]);
+    expect(alignDigits('', '5', [0])).toEqual([{ kind: 'extra', actual: '5', wordIndex: 0 }]);
+  });
+});
+
+describe('checkMnemonic', () => {
+  // Do-Re-Major: d/t = 1, r = 2, m = 3, l = 6, n = 0
+  const dictionary = { 'drm': ['DReaM'], 'd': ['TeA'] };
+
+  it('accepts a phrase that encodes the digits', () => {
+    const check = checkMnemonic('dream tea', '1231', 'do-re-major', dictionary);
+    expect(check.isMatch).toBe(true);
+    expect(check.words.every(w => w.isCorrect)).toBe(true);
+  });
+
+  it('blames the word that should have produced a missing digit', () => {
+    const check = checkMnemonic('dream tea', '12361', 'do-re-major', dictionary);
+    expect(check.isMatch).toBe(false);
+    expect(check.words.map(w => w.isCorrect)).toEqual([true, false]);
+  });
+
+  it('flags words guessed from their spelling', () => {
+    const check = checkMnemonic('lamb', '63', 'do-re-major', dictionary);
+    expect(check.isMatch).toBe(true);
+    expect(check.words[0].risks).toEqual(['guessed']);
+  });
+});
@@ -0,0 +1,73 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import {
+  buildCustomSystemConfig,
+  expandBridgeDigits,
+  getSystemConfig,
+  mnemonicSystems,
+  registerCustomSystems,
+  CustomSystemDefinition,
+} from '@/lib/mnemonicSystems';
+
+const definition: CustomSystemDefinition = {
+  id: 'custom-test',
+  name: 'Test',
+  description: 'Splits th from t and d',
+  phonemeToDigit: { 't': '1', 'd': '1', 'T': '0', 'n': '2' },
+};
+
+describe('expandBridgeDigits', () => {
+  it('gives every phoneme in a group the group digit', () => {
+    expect(expandBridgeDigits({ 'D': '1', 'N': '2' })).toEqual({
+      't': '1', 'd': '1', 'T': '1', 'H': '1', 'n': '2', 'G': '2',
+    });
+  });
+
+  it('leaves unassigned groups out', () => {
+    expect(expandBridgeDigits({ 'M': '3' })).toEqual({ 'm': '3' });
+  });
+});
+
+describe('buildCustomSystemConfig', () => {
+  it('builds display spellings from the phoneme digits', () => {
+    const config = buildCustomSystemConfig(definition);
+    expect(config.isCustom).toBe(true);
+    expect(config.mappings['1']).toEqual(['t', 'd']);
+    expect(config.mappings['0']).toEqual(['th']);
+    expect(config.mappings['2']).toEqual(['n', 'kn']);
+    expect(config.mappings['5']).toEqual([]);
+  });
+
+  it('copies the phoneme digits rather than sharing them', () => {
+    const config = buildCustomSystemConfig(definition);
+    expect(config.phonemeToDigit).toEqual(definition.phonemeToDigit);
+    expect(config.phonemeToDigit).not.toBe(definition.phonemeToDigit);
+  });
+});
+
+describe('registerCustomSystems', () => {
+  afterEach(() => {
+    registerCustomSystems([]);
+  });
+
+  it('registers systems by id and replaces them on each call', () => {
+    registerCustomSystems([definition]);
+    const first = getSystemConfig('custom-test');
+    expect(first.name).toBe('Test');
+
+    registerCustomSystems([{ ...definition, name: 'Renamed' }]);
+    const second = getSystemConfig('custom-test');
+    expect(second.name).toBe('Renamed');
+    expect(second).not.toBe(first);
+  });
+
+  it('removes systems that are no longer defined but keeps built-ins', () => {
+    registerCustomSystems([definition]);
+    registerCustomSystems([]);
+    expect(mnemonicSystems['custom-test']).toBeUndefined();
+    expect(mnemonicSystems['major'].name).toBe('Major System');
+  });
+
+  it('falls back to Do-Re-Major for unknown ids', () => {
+    expect(getSystemConfig('custom-deleted')).toBe(mnemonicSystems['do-re-major']);
+  });
+});
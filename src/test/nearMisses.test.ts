@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { findNearMisses, formatDigitEdit, oneEditVariants } from '@/lib/nearMisses';
+
+describe('oneEditVariants', () => {
+  it('lists every sequence one edit away once', () => {
+    const variants = oneEditVariants('12').map(v => v.digits);
+    // 2 deletions, 18 substitutions and 30 insertions, less "112" and "122" made twice
+    expect(variants).toHaveLength(48);
+    expect(new Set(variants).size).toBe(48);
+    expect(variants).not.toContain('12');
+  });
+
+  it('keeps the first edit of those that repeated digits make the same', () => {
+    const variants = oneEditVariants('11');
+    expect(variants.filter(v => v.digits === '1')).toEqual([
+      { digits: '1', edit: { kind: 'missing', position: 0, expected: '1' } },
+    ]);
+    expect(variants.filter(v => v.digits === '111')).toEqual([
+      { digits: '111', edit: { kind: 'extra', position: 0, actual: '1' } },
+    ]);
+    expect(variants).toHaveLength(47);
+  });
+
+  it('leaves out the empty sequence', () => {
+    expect(oneEditVariants('7').map(v => v.digits)).not.toContain('');
+  });
+});
+
+describe('findNearMisses', () => {
+  // Do-Re-Major: d/t = 1, r = 2, m = 3
+  const dictionary = { 'd': ['TeA', 'ToE'], 'm': ['Ma'], 'drm': ['DReaM'] };
+
+  it('takes the top word of every near sequence before the second', () => {
+    expect(findNearMisses(dictionary, '13', 'do-re-major').map(m => m.word)).toEqual(['Ma', 'TeA', 'DReaM', 'ToE']);
+  });
+
+  it('carries the edit and stops at the result limit', () => {
+    const [miss] = findNearMisses(dictionary, '13', 'do-re-major', 1);
+    expect(miss).toEqual({ word: 'Ma', digits: '3', edit: { kind: 'missing', position: 0, expected: '1' } });
+    expect(formatDigitEdit(miss.edit)).toBe('−1');
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { fromPortableDictionary } from '@/lib/dictionaryService';
+import { decodePhrase, decodeWord, splitPhrase } from '@/lib/phraseDecoder';
+
+// Do-Re-Major: d = 1, r = 2, m = 3, f = 4, l = 6, k/g = 7, j = 8
+const dictionary = {
+  'drm': ['DReaM'],
+  'gf': ['GiF'],
+  'jf': ['GiF'],
+};
+
+describe('splitPhrase', () => {
+  it('keeps inner apostrophes and drops numbers and punctuation', () => {
+    expect(splitPhrase("It's 3 o'clock, Bob!")).toEqual(["It's", "o'clock", 'Bob']);
+  });
+});
+
+describe('decodeWord', () => {
+  it('uses the dictionary pronunciation with the letters of each sound', () => {
+    const decoded = decodeWord('Dream', 'do-re-major', dictionary);
+    expect(decoded.source).toBe('dictionary');
+    expect(decoded.digits).toBe('123');
+    expect(decoded.sounds).toEqual([
+      { phoneme: 'd', digit: '1', start: 0, end: 1 },
+      { phoneme: 'r', digit: '2', start: 1, end: 2 },
+      { phoneme: 'm', digit: '3', start: 4, end: 5 },
+    ]);
+  });
+
+  it('lists the digits of other pronunciations', () => {
+    const decoded = decodeWord('gif', 'do-re-major', dictionary);
+    expect(decoded.digits).toBe('74');
+    expect(decoded.alternativeDigits).toEqual(['84']);
+  });
+
+  it('estimates unlisted words from their spelling', () => {
+    const decoded = decodeWord('lamb', 'do-re-major', dictionary);
+    expect(decoded.source).toBe('spelling');
+    expect(decoded.phonemeCode).toBe('lm');
+    expect(decoded.digits).toBe('63');
+    expect(decoded.sounds.map(s => [s.start, s.end])).toEqual([[0, 1], [2, 3]]);
+  });
+
+  it('spells in the dictionary accent', () => {
+    expect(decodeWord('car', 'do-re-major', dictionary).digits).toBe('7');
+    const rhotic = fromPortableDictionary({ entries: {}, accent: 'rhotic' });
+    expect(decodeWord('car', 'do-re-major', rhotic).digits).toBe('72');
+  });
+});
+
+describe('decodePhrase', () => {
+  it('joins the digits of every word in order', () => {
+    const decoded = decodePhrase('Dream, gif lamb', 'do-re-major', dictionary);
+    expect(decoded.words.map(w => w.digits)).toEqual(['123', '74', '63']);
+    expect(decoded.digits).toBe('1237463');
+  });
+
+  it('decodes with the chosen system', () => {
+    expect(decodePhrase('dream', 'major', dictionary).digits).toBe('143');
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { generatePseudoWords } from '@/lib/pseudoWords';
+import { getSystemConfig } from '@/lib/mnemonicSystems';
+import { spellSounds } from '@/lib/spellingRules';
+
+const readBack = (word: string, system: string, rhotic = false) => {
+  const { phonemeToDigit } = getSystemConfig(system);
+  return spellSounds(word, { rhotic }).map(s => phonemeToDigit[s.sound] ?? '').join('');
+};
+
+describe('generatePseudoWords', () => {
+  it('invents words the spelling rules read back as the digits', () => {
+    for (const system of ['do-re-major', 'major']) {
+      for (const digits of ['7', '42', '907', '1234', '5555', '80196']) {
+        const words = generatePseudoWords(digits, system);
+        expect(words.length).toBeGreaterThan(0);
+        for (const word of words) {
+          expect(readBack(word, system)).toBe(digits);
+        }
+      }
+    }
+  });
+
+  it('checks the "r" the rhotic way when asked', () => {
+    for (const word of generatePseudoWords('242', 'do-re-major', { rhotic: true })) {
+      expect(readBack(word, 'do-re-major', true)).toBe('242');
+    }
+  });
+
+  it('capitalises the letters of each sound', () => {
+    for (const word of generatePseudoWords('907', 'do-re-major')) {
+      const capitals = word.replace(/[a-z]/g, '');
+      const sounded = spellSounds(word).map(s => word.slice(s.start, s.end)).join('');
+      expect(capitals).toBe(sounded);
+    }
+  });
+
+  it('lists the shortest first, up to the limit, skipping known words', () => {
+    const words = generatePseudoWords('1234', 'do-re-major', { maxResults: 3 });
+    expect(words).toHaveLength(3);
+    expect(words.map(w => w.length)).toEqual([...words.map(w => w.length)].sort((a, b) => a - b));
+
+    const [first] = words;
+    const others = generatePseudoWords('1234', 'do-re-major', { maxResults: 3, isKnownWord: w => w === first.toLowerCase() });
+    expect(others).not.toContain(first);
+  });
+});
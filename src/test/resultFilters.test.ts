@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { convertRichDictionary } from '@/lib/dictionaryService';
+import { DEFAULT_FILTERS, applyResultFilters, hasActiveFilters, needsWordInfo } from '@/lib/resultFilters';
+
+const rich = convertRichDictionary({
+  'd': [
+    { word: 'DoeR', pos: 'noun', concreteness: 4.8, syllables: 1 },
+    { word: 'DaVe', pos: 'name', concreteness: 4, syllables: 1 },
+    { word: 'DaRe', pos: 'verb', concreteness: 2, syllables: 1 },
+  ],
+  'dm': [
+    { word: 'TiDY', pos: 'adjective', concreteness: 3, syllables: 2 },
+    { word: 'DoMiNo', pos: 'noun', concreteness: 4.5, syllables: 3 },
+  ],
+});
+
+const plain = { 'd': ['DoeR', 'DaRe'], 'dm': ['DoMiNo'] };
+
+describe('applyResultFilters', () => {
+  it('returns the dictionary itself when no filter is on', () => {
+    expect(applyResultFilters(rich, DEFAULT_FILTERS)).toBe(rich);
+  });
+
+  it('keeps nouns and names, plus the parts of speech allowed', () => {
+    expect(applyResultFilters(rich, { ...DEFAULT_FILTERS, nounsOnly: true })).toEqual({
+      'd': ['DoeR', 'DaVe'],
+      'dm': ['DoMiNo'],
+    });
+    expect(applyResultFilters(rich, { ...DEFAULT_FILTERS, nounsOnly: true, allowVerbs: true, hideProperNouns: true })['d'])
+      .toEqual(['DoeR', 'DaRe']);
+  });
+
+  it('drops words below the concreteness minimum or over the syllable limit', () => {
+    expect(applyResultFilters(rich, { ...DEFAULT_FILTERS, minConcreteness: 4.5 })).toEqual({
+      'd': ['DoeR'],
+      'dm': ['DoMiNo'],
+    });
+    expect(applyResultFilters(rich, { ...DEFAULT_FILTERS, maxSyllables: 2 })['dm']).toEqual(['TiDY']);
+  });
+
+  it('lets allowed words skip the filters but never shows blocked words', () => {
+    const filtered = applyResultFilters(rich, {
+      ...DEFAULT_FILTERS,
+      nounsOnly: true,
+      blockedWords: ['doer'],
+      allowedWords: ['tidy', 'doer'],
+    });
+    expect(filtered).toEqual({ 'd': ['DaVe'], 'dm': ['TiDY', 'DoMiNo'] });
+  });
+
+  it('caches the filtered view per dictionary and settings', () => {
+    const filters = { ...DEFAULT_FILTERS, maxSyllables: 1 };
+    expect(applyResultFilters(rich, filters)).toBe(applyResultFilters(rich, { ...filters }));
+  });
+
+  it('only applies the syllable limit to dictionaries without word metadata', () => {
+    expect(applyResultFilters(plain, { ...DEFAULT_FILTERS, nounsOnly: true })).toBe(plain);
+    expect(applyResultFilters(plain, { ...DEFAULT_FILTERS, nounsOnly: true, maxSyllables: 1 })).toEqual({
+      'd': ['DoeR', 'DaRe'],
+    });
+  });
+});
+
+describe('hasActiveFilters', () => {
+  it('ignores filters that need word metadata when there is none', () => {
+    const filters = { ...DEFAULT_FILTERS, nounsOnly: true, minConcreteness: 3 };
+    expect(needsWordInfo(filters)).toBe(true);
+    expect(hasActiveFilters(filters)).toBe(true);
+    expect(hasActiveFilters(filters, false)).toBe(false);
+    expect(hasActiveFilters({ ...filters, maxSyllables: 2 }, false)).toBe(true);
+    expect(hasActiveFilters({ ...DEFAULT_FILTERS, familySafe: true }, false)).toBe(true);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { createSavedDataFile, parseSavedDataFile } from '@/lib/savedData';
+import { CustomSystemDefinition } from '@/lib/mnemonicSystems';
+import { Favorite } from '@/hooks/useFavorites';
+
+const system: CustomSystemDefinition = {
+  id: 'custom-1',
+  name: 'Team Major',
+  description: '',
+  phonemeToDigit: { 't': '1', 'n': '2' },
+};
+
+const favorite: Favorite = { id: '1', digits: '12', words: ['TiN'], system: 'custom-1', createdAt: 1 };
+
+describe('parseSavedDataFile', () => {
+  it('reads back an export with its custom systems', () => {
+    const file = createSavedDataFile([favorite], { blocked: ['tan'], allowed: [] }, [system]);
+    const parsed = parseSavedDataFile(JSON.stringify(file));
+    expect(parsed.favorites).toEqual([favorite]);
+    expect(parsed.wordLists).toEqual({ blocked: ['tan'], allowed: [] });
+    expect(parsed.customSystems).toEqual([system]);
+  });
+
+  it('reads exports made before custom systems were included', () => {
+    const parsed = parseSavedDataFile(JSON.stringify({ version: 1, favorites: [favorite], wordLists: {} }));
+    expect(parsed.customSystems).toEqual([]);
+  });
+
+  it('rejects custom systems with unknown sounds or non-digits', () => {
+    const withSystem = (phonemeToDigit: object) =>
+      JSON.stringify({ version: 1, customSystems: [{ ...system, phonemeToDigit }] });
+    expect(() => parseSavedDataFile(withSystem({ 'X': '1' }))).toThrow('Custom system 1');
+    expect(() => parseSavedDataFile(withSystem({ 't': '12' }))).toThrow('Custom system 1');
+  });
+
+  it('rejects custom systems that would replace a built-in one', () => {
+    const withId = (id: string) => JSON.stringify({ version: 1, customSystems: [{ ...system, id }] });
+    expect(() => parseSavedDataFile(withId('major'))).toThrow('built-in "major"');
+    expect(() => parseSavedDataFile(withId('do-re-major'))).toThrow('built-in "do-re-major"');
+  });
+
+  it('stores listed words by their key', () => {
+    const parsed = parseSavedDataFile(JSON.stringify({ version: 1, wordLists: { blocked: ['TaN', 'tan'], allowed: ['Door'] } }));
+    expect(parsed.wordLists).toEqual({ blocked: ['tan'], allowed: ['door'] });
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { getSensitiveCategory } from '@/lib/sensitiveWords';
+
+describe('getSensitiveCategory', () => {
+  it('matches listed words and their inflections', () => {
+    expect(getSensitiveCategory('bitch')).toBe('vulgar');
+    expect(getSensitiveCategory('bitches')).toBe('vulgar');
+    expect(getSensitiveCategory('pissing')).toBe('vulgar');
+    expect(getSensitiveCategory('raped')).toBe('sexual');
+    expect(getSensitiveCategory('fagging')).toBe('slur');
+  });
+
+  it('only matches agent nouns of verbs that form them', () => {
+    expect(getSensitiveCategory('fuckers')).toBe('vulgar');
+    expect(getSensitiveCategory('shitter')).toBe('vulgar');
+    expect(getSensitiveCategory('cocker')).toBeUndefined();
+    expect(getSensitiveCategory('titer')).toBeUndefined();
+  });
+
+  it('does not match innocent words that look inflected', () => {
+    expect(getSensitiveCategory('spicy')).toBeUndefined();
+    expect(getSensitiveCategory('spices')).toBeUndefined();
+    expect(getSensitiveCategory('pricked')).toBeUndefined();
+    expect(getSensitiveCategory('damning')).toBeUndefined();
+    expect(getSensitiveCategory('pubs')).toBeUndefined();
+  });
+
+  it('leaves unrelated words alone', () => {
+    expect(getSensitiveCategory('door')).toBeUndefined();
+    expect(getSensitiveCategory('passed')).toBeUndefined();
+    expect(getSensitiveCategory('cockle')).toBeUndefined();
+  });
+
+  it('checks extra words, with their inflections', () => {
+    const extra = new Map([['frak', 'vulgar' as const]]);
+    expect(getSensitiveCategory('frak', extra)).toBe('vulgar');
+    expect(getSensitiveCategory('fraking', extra)).toBe('vulgar');
+    expect(getSensitiveCategory('frak')).toBeUndefined();
+  });
+});
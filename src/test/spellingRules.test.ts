@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { estimateSyllables, spellSounds, spellingToPhonemeCode, toRhoticPhonemeCode } from '@/lib/spellingRules';
+
+describe('spellingToPhonemeCode', () => {
+  it('spells plain consonants, counting doubled letters once', () => {
+    expect(spellingToPhonemeCode('dream')).toBe('drm');
+    expect(spellingToPhonemeCode('letter')).toBe('lt');
+  });
+
+  it('handles digraphs and silent letters', () => {
+    expect(spellingToPhonemeCode('knight')).toBe('nt');
+    expect(spellingToPhonemeCode('thumb')).toBe('Tm');
+    expect(spellingToPhonemeCode('match')).toBe('mc');
+    expect(spellingToPhonemeCode('phone')).toBe('fn');
+  });
+
+  it('tells soft and hard c and g apart', () => {
+    expect(spellingToPhonemeCode('cell')).toBe('sl');
+    expect(spellingToPhonemeCode('cat')).toBe('kt');
+    expect(spellingToPhonemeCode('gym')).toBe('jm');
+    expect(spellingToPhonemeCode('gum')).toBe('gm');
+  });
+
+  it('reads -sion and -tion endings', () => {
+    expect(spellingToPhonemeCode('vision')).toBe('vZn');
+    expect(spellingToPhonemeCode('station')).toBe('stxn');
+  });
+
+  it('only sounds "r" before a vowel unless rhotic', () => {
+    expect(spellingToPhonemeCode('door')).toBe('d');
+    expect(spellingToPhonemeCode('door', { rhotic: true })).toBe('dr');
+    expect(spellingToPhonemeCode('fire')).toBe('f');
+  });
+});
+
+describe('spellSounds', () => {
+  it('reports the letters that spell each sound', () => {
+    expect(spellSounds('knight')).toEqual([
+      { sound: 'n', start: 1, end: 2 },
+      { sound: 't', start: 5, end: 6 },
+    ]);
+  });
+});
+
+describe('toRhoticPhonemeCode', () => {
+  it('inserts rhotic "r" sounds in spelling order', () => {
+    expect(toRhoticPhonemeCode('door', 'd')).toBe('dr');
+    expect(toRhoticPhonemeCode('farmer', 'fm')).toBe('frmr');
+    expect(toRhoticPhonemeCode('four', 'f')).toBe('fr');
+  });
+
+  it('keeps "r" sounds the code already has', () => {
+    expect(toRhoticPhonemeCode('motor', 'mtr')).toBe('mtr');
+    expect(toRhoticPhonemeCode('butter', 'ptr')).toBe('ptr');
+    expect(toRhoticPhonemeCode('hunter', 'ntr')).toBe('ntr');
+    expect(toRhoticPhonemeCode('helper', 'lpr')).toBe('lpr');
+    expect(toRhoticPhonemeCode('re', 'r')).toBe('r');
+  });
+
+  it('leaves codes without a written "r" alone', () => {
+    expect(toRhoticPhonemeCode('dream', 'drm')).toBe('drm');
+  });
+});
+
+describe('estimateSyllables', () => {
+  it('counts vowel groups, ignoring a silent final "e"', () => {
+    expect(estimateSyllables('make')).toBe(1);
+    expect(estimateSyllables('bottle')).toBe(2);
+    expect(estimateSyllables('banana')).toBe(3);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { addLock, shiftLocks } from '@/lib/wordLocks';
+import { buildSplitRows } from '@/hooks/useSegmentMatches';
+import { buildLongNumberStory } from '@/lib/longNumberStory';
+import { majorDictionary as dictionary } from './fixtures';
+
+const motor = { start: 0, digits: '314', word: 'MoToR' };
+const rabbit = { start: 5, digits: '491', word: 'RaBBiT' };
+
+describe('shiftLocks', () => {
+  it('keeps locks before an edit and moves locks after it', () => {
+    expect(shiftLocks([motor, rabbit], '31400491', '3140000491')).toEqual([motor, { ...rabbit, start: 7 }]);
+    expect(shiftLocks([motor, rabbit], '31400491', '3140491')).toEqual([motor, { ...rabbit, start: 4 }]);
+    // Any of the 4s in '3144491' could be the one removed; the lock decides
+    expect(shiftLocks([{ ...rabbit, start: 4 }], '3144491', '314491')).toEqual([{ ...rabbit, start: 3 }]);
+  });
+
+  it('drops locks on edited digits', () => {
+    expect(shiftLocks([motor, rabbit], '31400491', '31700491')).toEqual([rabbit]);
+    expect(shiftLocks([motor, rabbit], '31400491', '31400481')).toEqual([motor]);
+  });
+});
+
+describe('addLock', () => {
+  it('replaces overlapping locks', () => {
+    const metro = { start: 1, digits: '14', word: 'TaR' };
+    expect(addLock([motor, rabbit], metro)).toEqual([metro, rabbit]);
+  });
+});
+
+describe('buildSplitRows with locks', () => {
+  it('keeps locked ranges and splits only the digits around them', () => {
+    const rows = buildSplitRows('123', dictionary, 'major', [], 50, undefined, false, [{ start: 1, digits: '2', word: 'NuN' }]);
+    expect(rows.map(row => row.pattern)).toEqual(['1+2+3']);
+    expect(rows[0].segments[1]).toMatchObject({ start: 1, matches: [{ word: 'NuN' }], isLocked: true });
+  });
+});
+
+describe('buildLongNumberStory with locks', () => {
+  it('keeps locked words as chunks and builds the story around them', () => {
+    const chunks = buildLongNumberStory('1231213', dictionary, 'major', [], undefined, [{ start: 1, digits: '23', word: 'NuMb' }]);
+    expect(chunks.map(chunk => chunk.digits)).toEqual(['1', '23', '12', '1', '3']);
+    expect(chunks[1]).toEqual({ start: 1, digits: '23', words: ['NuMb'], customPegs: [], isLocked: true });
+  });
+
+  it('ignores locks whose digits have changed', () => {
+    const chunks = buildLongNumberStory('1231213', dictionary, 'major', [], undefined, [{ start: 1, digits: '99', word: 'PuB' }]);
+    expect(chunks.some(chunk => chunk.isLocked)).toBe(false);
+  });
+});
@@ -1 +1,4 @@
 /// <reference types="vite/client" />
+
+// Dictionary files in public/ at build time
+declare const __SHIPPED_DICTIONARIES__: string[];
@@ -0,0 +1,58 @@
+/**
+ * Runs one match request, posting results as they improve. Combinations and
+ * stories are one step each (the matcher stops at its time budget), but split
+ * rows are built step by step: the job posts the exact rows, then each
+ * inexact row as it is found, and checks for a cancel between steps. It
+ * yields every SLICE_MS so a cancel or a newer request can get through.
+ */
+
+import { Dictionary } from '@/lib/dictionaryService';
+import { findWordCombinations } from '@/hooks/useMnemonicMatcher';
+import { buildSplitRowsInSteps } from '@/hooks/useSegmentMatches';
+import { buildLongNumberStory } from '@/lib/longNumberStory';
+import { MatchRequest, MatcherResponse } from './matcherProtocol';
+
+// Longest the job runs without letting messages through
+const SLICE_MS = 50;
+
+// Let queued messages (a cancel, a newer request) through
+function yieldToMessages(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+export async function runMatchJob(
+  request: MatchRequest,
+  dictionary: Dictionary,
+  post: (response: MatcherResponse) => void,
+  isCancelled: () => boolean
+): Promise<void> {
+  const { id, kind, digits, system, customPegs, filters, locks } = request;
+  try {
+    await yieldToMessages();
+    if (isCancelled()) return;
+
+    if (kind === 'combinations') {
+      post({ type: 'results', id, results: findWordCombinations(digits, dictionary, system, customPegs, 50, filters, locks) });
+    } else if (kind === 'story') {
+      post({ type: 'results', id, results: buildLongNumberStory(digits, dictionary, system, customPegs, filters, locks) });
+    } else {
+      // Exact rows first; near misses and invented words take longer
+      let postedCount = -1;
+      let sliceStart = Date.now();
+      for (const rows of buildSplitRowsInSteps(digits, dictionary, system, customPegs, 50, filters, true, locks)) {
+        if (rows.length !== postedCount) {
+          post({ type: 'results', id, results: rows });
+          postedCount = rows.length;
+        }
+        if (Date.now() - sliceStart > SLICE_MS) {
+          await yieldToMessages();
+          sliceStart = Date.now();
+        }
+        if (isCancelled()) return;
+      }
+    }
+    post({ type: 'done', id });
+  } catch (error) {
+    post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+  }
+}
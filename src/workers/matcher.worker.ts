@@ -0,0 +1,54 @@
+/**
+ * Matcher worker: keeps the posted dictionary and runs match requests on it
+ * (see matcherProtocol for the messages).
+ */
+
+import { CustomSystemDefinition, registerCustomSystems } from '@/lib/mnemonicSystems';
+import { Dictionary, fromPortableDictionary } from '@/lib/dictionaryService';
+import { MatcherMessage, MatcherResponse } from './matcherProtocol';
+import { runMatchJob } from './matchJob';
+
+// The DOM typings describe the global scope as a window; a worker posts like a Worker
+const scope = self as unknown as Worker;
+
+let dictionary: Dictionary | null = null;
+// Requests that haven't finished or been cancelled
+const running = new Set<number>();
+
+// User-defined systems seen so far, by id. They are only re-registered when one
+// changes, as registering builds new configs and with them new digit indexes.
+const customSystems = new Map<string, CustomSystemDefinition>();
+
+function registerCustomSystem(definition: CustomSystemDefinition): void {
+  if (JSON.stringify(customSystems.get(definition.id)) === JSON.stringify(definition)) return;
+  customSystems.set(definition.id, definition);
+  registerCustomSystems([...customSystems.values()]);
+}
+
+function post(response: MatcherResponse): void {
+  scope.postMessage(response);
+}
+
+scope.onmessage = (event: MessageEvent<MatcherMessage>) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'dictionary':
+      dictionary = fromPortableDictionary(message.dictionary);
+      break;
+    case 'cancel':
+      running.delete(message.id);
+      break;
+    case 'match': {
+      const { request } = message;
+      if (!dictionary) {
+        post({ type: 'error', id: request.id, message: 'No dictionary posted' });
+        break;
+      }
+      if (request.customSystem) registerCustomSystem(request.customSystem);
+      running.add(request.id);
+      runMatchJob(request, dictionary, post, () => !running.has(request.id))
+        .finally(() => running.delete(request.id));
+      break;
+    }
+  }
+};
@@ -0,0 +1,119 @@
+/**
+ * Runs matching off the main thread in a shared Web Worker, so typing a long
+ * number doesn't freeze the input. Each dictionary is posted to the worker
+ * once; jobs stream their results back and can be cancelled. Without Worker
+ * support (or if the worker fails to load) jobs run on the main thread
+ * instead, still in steps so cancelled ones stop early.
+ */
+
+import { MnemonicSystem, getSystemConfig } from '@/lib/mnemonicSystems';
+import { Dictionary, toPortableDictionary } from '@/lib/dictionaryService';
+import { ResultFilters } from '@/lib/resultFilters';
+import { Favorite } from '@/hooks/useFavorites';
+import { WordLock } from '@/lib/wordLocks';
+import { MatchKind, MatchRequest, MatcherMessage, MatcherResponse } from './matcherProtocol';
+
+export interface MatchJobInput {
+  kind: MatchKind;
+  digits: string;
+  system: MnemonicSystem;
+  dictionary: Dictionary;
+  customPegs: Favorite[];
+  filters: ResultFilters;
+  locks: WordLock[];
+}
+
+interface Job {
+  request: MatchRequest;
+  dictionary: Dictionary;
+  onResponse: (response: MatcherResponse) => void;
+  // Set while the job runs on the main thread
+  cancelOnMainThread?: () => void;
+}
+
+// Undefined until first used, null when workers are unavailable
+let worker: Worker | null | undefined;
+// The dictionary the worker has, so it's only posted again when it changes
+let postedDictionary: Dictionary | null = null;
+let nextId = 1;
+const jobs = new Map<number, Job>();
+
+function getWorker(): Worker | null {
+  if (worker !== undefined) return worker;
+  worker = null;
+  if (typeof Worker === 'undefined') return worker;
+  try {
+    worker = new Worker(new URL('./matcher.worker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    console.warn('Matcher worker unavailable, matching on the main thread:', error);
+    return worker;
+  }
+
+  worker.onmessage = (event: MessageEvent<MatcherResponse>) => deliver(event.data);
+  // A worker that fails to load: run its jobs here instead
+  worker.onerror = (event) => {
+    console.warn('Matcher worker failed, matching on the main thread:', event.message);
+    worker?.terminate();
+    worker = null;
+    postedDictionary = null;
+    for (const job of jobs.values()) runOnMainThread(job);
+  };
+  return worker;
+}
+
+function deliver(response: MatcherResponse): void {
+  const job = jobs.get(response.id);
+  if (!job) return;
+  if (response.type !== 'results') jobs.delete(response.id);
+  job.onResponse(response);
+}
+
+function post(message: MatcherMessage): void {
+  getWorker()?.postMessage(message);
+}
+
+function runOnMainThread(job: Job): void {
+  let cancelled = false;
+  job.cancelOnMainThread = () => { cancelled = true; };
+  // Loaded on demand, as the matchers are only needed here without a worker
+  import('./matchJob')
+    .then(({ runMatchJob }) => runMatchJob(job.request, job.dictionary, deliver, () => cancelled))
+    .catch(error => deliver({ type: 'error', id: job.request.id, message: String(error) }));
+}
+
+/**
+ * Start matching digits. Responses go to onResponse until the job is done;
+ * the returned function cancels it (later responses are dropped).
+ */
+export function startMatchJob(
+  { dictionary, ...input }: MatchJobInput,
+  onResponse: (response: MatcherResponse) => void
+): () => void {
+  const id = nextId++;
+  const config = getSystemConfig(input.system);
+  const request: MatchRequest = {
+    id,
+    ...input,
+    customSystem: config.isCustom
+      ? { id: input.system, name: config.name, description: config.description, phonemeToDigit: config.phonemeToDigit }
+      : undefined,
+  };
+  const job: Job = { request, dictionary, onResponse };
+  jobs.set(id, job);
+
+  if (getWorker()) {
+    if (postedDictionary !== dictionary) {
+      post({ type: 'dictionary', dictionary: toPortableDictionary(dictionary) });
+      postedDictionary = dictionary;
+    }
+    post({ type: 'match', request });
+  } else {
+    runOnMainThread(job);
+  }
+
+  return () => {
+    if (!jobs.delete(id)) return;
+    if (job.cancelOnMainThread) job.cancelOnMainThread();
+    else post({ type: 'cancel', id });
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * Messages between the page and the matcher worker (see matcherClient).
+ * The dictionary is posted once; each match request then refers to it and
+ * gets back one or more results messages, ending with done (or error).
+ */
+
+import { CustomSystemDefinition, MnemonicSystem } from '@/lib/mnemonicSystems';
+import { PortableDictionary } from '@/lib/dictionaryService';
+import { ResultFilters } from '@/lib/resultFilters';
+import { Favorite } from '@/hooks/useFavorites';
+import { MatchResult } from '@/hooks/useMnemonicMatcher';
+import { SplitRow } from '@/hooks/useSegmentMatches';
+import { StoryChunk } from '@/lib/longNumberStory';
+import { WordLock } from '@/lib/wordLocks';
+
+// Results of each kind of match: word combinations, split rows per segment,
+// or a long number's story
+export interface MatchResults {
+  combinations: MatchResult[];
+  splits: SplitRow[];
+  story: StoryChunk[];
+}
+
+export type MatchKind = keyof MatchResults;
+
+export interface MatchRequest {
+  id: number;
+  kind: MatchKind;
+  digits: string;
+  system: MnemonicSystem;
+  // Definition of a user-defined system, which the worker has no registry of
+  customSystem?: CustomSystemDefinition;
+  customPegs: Favorite[];
+  filters: ResultFilters;
+  locks: WordLock[];
+}
+
+// Page to worker
+export type MatcherMessage =
+  | { type: 'dictionary'; dictionary: PortableDictionary }
+  | { type: 'match'; request: MatchRequest }
+  | { type: 'cancel'; id: number };
+
+// Worker to page. Each results message replaces the previous one for the request.
+export type MatcherResponse =
+  | { type: 'results'; id: number; results: MatchResults[MatchKind] }
+  | { type: 'done'; id: number }
+  | { type: 'error'; id: number; message: string };
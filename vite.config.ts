@@ -1,5 +1,6 @@
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import fs from "fs";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
@@ -12,6 +13,8 @@ export default defineConfig(({ mode }) => ({
   base: mode === 'production' ? './' : '/',
   define: {
     __BUILD_TIMESTAMP__: JSON.stringify(new Date().toISOString().replaceAll("T", " ").replaceAll("Z", "")),
+    // Dictionaries that have been generated, so locales without one aren't offered
+    __SHIPPED_DICTIONARIES__: JSON.stringify(fs.readdirSync(path.resolve(__dirname, "public")).filter(file => /^dictionary-.*\.json$/.test(file))),
   },
 
   plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
@@ -1,9 +1,13 @@
 import { defineConfig } from "vitest/config";
 import react from "@vitejs/plugin-react-swc";
+import fs from "fs";
 import path from "path";
 
 export default defineConfig({
   plugins: [react()],
+  define: {
+    __SHIPPED_DICTIONARIES__: JSON.stringify(fs.readdirSync(path.resolve(__dirname, "public")).filter(file => /^dictionary-.*\.json$/.test(file))),
+  },
   test: {
     environment: "jsdom",
     globals: true,